@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { toFunctionSelector, type Abi, type AbiFunction } from 'viem';
+import { toErrorSelector, type AbiError } from './error-decoder';
+
+/**
+ * Extract an ABI from a parsed JSON file
+ * Accepts plain ABI arrays, Foundry `out/*.json` and Hardhat artifacts (both carry an `abi` field).
+ * @param json Parsed JSON content
+ */
+export function parseAbiArtifact(json: unknown): Abi | null {
+  const abi = Array.isArray(json) ? json : (json as any)?.abi;
+
+  if (!Array.isArray(abi) || !abi.every((item) => item && typeof item === 'object' && typeof item.type === 'string')) {
+    return null;
+  }
+
+  return abi as Abi;
+}
+
+/**
+ * Local registry of ABIs for unverified or not-yet-deployed contracts
+ * ABIs can be bound to an address; every registered function is also searchable by selector.
+ */
+export class AbiRegistry {
+  private byAddress: Map<string, Abi> = new Map();
+  private bySelector: Map<string, AbiFunction[]> = new Map();
+  private errorsBySelector: Map<string, AbiError[]> = new Map();
+
+  /**
+   * Register an ABI, optionally bound to a contract address
+   * Registering several ABIs for the same address merges them.
+   */
+  register(abi: Abi, address?: string): void {
+    if (address) {
+      const normalizedAddress = address.toLowerCase();
+      const existing = this.byAddress.get(normalizedAddress) || [];
+      this.byAddress.set(normalizedAddress, [...existing, ...abi]);
+    }
+
+    for (const item of abi) {
+      if (item.type === 'error') {
+        const selector = toErrorSelector(item);
+        const errors = this.errorsBySelector.get(selector) || [];
+        if (!errors.some((error) => sameSignature(error, item))) {
+          errors.push(item);
+          this.errorsBySelector.set(selector, errors);
+        }
+        continue;
+      }
+      if (item.type !== 'function') {
+        continue;
+      }
+      const selector = toFunctionSelector(item);
+      const functions = this.bySelector.get(selector) || [];
+      if (!functions.some((fn) => sameSignature(fn, item))) {
+        functions.push(item);
+        this.bySelector.set(selector, functions);
+      }
+    }
+  }
+
+  /**
+   * Register an ABI from a JSON file (plain ABI, Foundry or Hardhat artifact)
+   * @param filePath Path to the JSON file
+   * @param address Contract address to bind the ABI to
+   */
+  registerFile(filePath: string, address?: string): Abi {
+    let json: unknown;
+    try {
+      json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to read ABI file ${filePath}: ${error.message}`);
+    }
+
+    const abi = parseAbiArtifact(json);
+    if (!abi) {
+      throw new Error(`No ABI found in ${filePath}`);
+    }
+
+    this.register(abi, address);
+    return abi;
+  }
+
+  /**
+   * Register every ABI found in a directory tree (e.g. Foundry `out/` or Hardhat `artifacts/`)
+   * Files that don't contain an ABI are skipped.
+   * @param directory Directory to scan
+   * @returns Number of ABI files registered
+   */
+  loadDirectory(directory: string): number {
+    let count = 0;
+
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        // Compiler build info holds full inputs/outputs, not artifacts
+        if (entry.name !== 'build-info') {
+          count += this.loadDirectory(entryPath);
+        }
+        continue;
+      }
+
+      if (!entry.name.endsWith('.json') || entry.name.endsWith('.dbg.json')) {
+        continue;
+      }
+
+      try {
+        const abi = parseAbiArtifact(JSON.parse(fs.readFileSync(entryPath, 'utf8')));
+        if (abi && abi.length > 0) {
+          this.register(abi);
+          count++;
+        }
+      } catch {
+        // Not JSON we understand, skip it
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Get the ABI bound to an address
+   */
+  getAbi(address: string): Abi | undefined {
+    return this.byAddress.get(address.toLowerCase());
+  }
+
+  /**
+   * Find registered functions matching a selector
+   * @param selector The 4-byte function selector (e.g., "0x12345678")
+   */
+  findFunctions(selector: string): AbiFunction[] {
+    return this.bySelector.get(selector.toLowerCase()) || [];
+  }
+
+  /**
+   * Find registered custom errors matching a selector
+   * @param selector The 4-byte error selector (e.g., "0x12345678")
+   */
+  findErrors(selector: string): AbiError[] {
+    return this.errorsBySelector.get(selector.toLowerCase()) || [];
+  }
+}
+
+function sameSignature(a: AbiFunction | AbiError, b: AbiFunction | AbiError): boolean {
+  return a.name === b.name && JSON.stringify(a.inputs) === JSON.stringify(b.inputs);
+}
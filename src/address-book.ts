@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { toNetworkConfig, type NetworkConfig } from './networks';
+import { KNOWN_ADDRESSES } from './known-addresses';
+import type { DecodedCall, DecodedParam, Network } from './types';
+
+export type LabelSource = 'user' | 'builtin' | 'etherscan';
+
+export interface AddressLabel {
+  label: string;
+  source: LabelSource;
+}
+
+export interface AddressBookOptions {
+  // Network name, chain id or config
+  network?: Network | NetworkConfig;
+}
+
+// Higher wins when several sources label the same address
+const SOURCE_PRIORITY: Record<LabelSource, number> = {
+  etherscan: 0,
+  builtin: 1,
+  user: 2,
+};
+
+/**
+ * Labels for addresses: the user's address book, well-known contracts and Etherscan names
+ */
+export class AddressBook {
+  private network: NetworkConfig;
+  private labels: Map<string, AddressLabel> = new Map();
+
+  constructor(options: AddressBookOptions = {}) {
+    this.network = toNetworkConfig(options.network);
+
+    for (const entries of [KNOWN_ADDRESSES.all, KNOWN_ADDRESSES[this.network.name]]) {
+      for (const [address, label] of Object.entries(entries || {})) {
+        this.set(address, label, 'builtin');
+      }
+    }
+  }
+
+  /**
+   * Default address book location: $XDG_CONFIG_HOME/multicall-decoder/address-book.json
+   * or ~/.config/multicall-decoder/address-book.json
+   */
+  static defaultPath(): string {
+    const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(base, 'multicall-decoder', 'address-book.json');
+  }
+
+  /**
+   * Load a user address book
+   * The file maps a chain (network name or chain id) to `{ "<address>": "<label>" }`;
+   * only the entries of the current network are used.
+   * @param filePath Path to the JSON file
+   * @returns Number of labels loaded
+   */
+  loadFile(filePath: string): number {
+    let json: any;
+    try {
+      json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to read address book ${filePath}: ${error.message}`);
+    }
+
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      throw new Error(`Address book ${filePath} must map chains to { address: label } objects`);
+    }
+
+    let count = 0;
+    for (const key of [this.network.name, String(this.network.chainId)]) {
+      for (const [address, label] of Object.entries(json[key] || {})) {
+        if (typeof label === 'string') {
+          this.set(address, label, 'user');
+          count++;
+        }
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Label an address, unless it already has a label from a higher-priority source
+   */
+  set(address: string, label: string, source: LabelSource = 'user'): void {
+    const normalizedAddress = address.toLowerCase();
+    const existing = this.labels.get(normalizedAddress);
+
+    if (!existing || SOURCE_PRIORITY[source] >= SOURCE_PRIORITY[existing.source]) {
+      this.labels.set(normalizedAddress, { label, source });
+    }
+  }
+
+  /**
+   * Get the label of an address
+   */
+  get(address: string): AddressLabel | undefined {
+    return this.labels.get(address.toLowerCase());
+  }
+
+  /**
+   * Label the targets and address arguments of decoded calls and their nested calls
+   */
+  labelCalls(calls: DecodedCall[]): void {
+    for (const call of calls) {
+      const target = this.get(call.target);
+      if (target) {
+        call.targetLabel = target.label;
+      }
+
+      this.labelParams(call.params || []);
+      this.labelCalls(call.children || []);
+    }
+  }
+
+  private labelParams(params: DecodedParam[]): void {
+    for (const param of params) {
+      if (param.components) {
+        this.labelParams(param.components);
+      } else if (param.type === 'address' && typeof param.value === 'string') {
+        const label = this.get(param.value);
+        if (label) {
+          param.label = label.label;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import * as readline from 'readline';
+import type { Readable } from 'stream';
+
+export interface BatchRecord {
+  // 1-based line number in the input
+  line: number;
+  to?: string;
+  data?: string;
+  hash?: string;
+  // Set when the line couldn't be parsed into a record
+  error?: string;
+}
+
+export type BatchInputFormat = 'lines' | 'csv' | 'jsonl';
+
+const HEX = /^0x[0-9a-fA-F]*$/;
+const RECORD_FIELDS = ['to', 'data', 'hash'] as const;
+
+/**
+ * Read batch records from a stream, one per non-empty line
+ * The format is detected from the first line: JSONL objects, CSV (with a `to,data,hash`
+ * header, or `to,data[,hash]` columns without one) or one calldata per line.
+ */
+export async function* readBatchRecords(input: Readable): AsyncGenerator<BatchRecord> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  const parser = new BatchRecordParser();
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    const record = parser.parseLine(line, lineNumber);
+    if (record) {
+      yield record;
+    }
+  }
+}
+
+/**
+ * Parse batch records from a string
+ */
+export function parseBatchRecords(text: string): BatchRecord[] {
+  const parser = new BatchRecordParser();
+  return text
+    .split(/\r?\n/)
+    .map((line, index) => parser.parseLine(line, index + 1))
+    .filter((record): record is BatchRecord => record !== null);
+}
+
+/**
+ * Line-by-line parser, keeps the detected format and CSV header between lines
+ */
+class BatchRecordParser {
+  private format?: BatchInputFormat;
+  private columns: string[] = ['to', 'data', 'hash'];
+
+  parseLine(rawLine: string, line: number): BatchRecord | null {
+    const text = rawLine.trim();
+    if (text === '' || text.startsWith('#')) {
+      return null;
+    }
+
+    if (!this.format) {
+      this.format = text.startsWith('{') ? 'jsonl' : text.includes(',') ? 'csv' : 'lines';
+
+      // A CSV header names the columns instead of holding a record
+      if (this.format === 'csv' && !splitCsv(text).every((field) => field === '' || HEX.test(field))) {
+        // Columns other than to, data and hash are ignored
+        this.columns = splitCsv(text).map((field) => field.toLowerCase());
+        return null;
+      }
+    }
+
+    switch (this.format) {
+      case 'jsonl':
+        return this.parseJson(text, line);
+      case 'csv':
+        return this.parseCsv(text, line);
+      default:
+        return validate({ line, data: text });
+    }
+  }
+
+  private parseJson(text: string, line: number): BatchRecord {
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch (error: any) {
+      return { line, error: `Invalid JSON: ${error.message}` };
+    }
+
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      return { line, error: 'Expected a JSON object with to, data and/or hash' };
+    }
+
+    return validate({
+      line,
+      to: json.to ?? undefined,
+      // Accept `input` as well, the field name transactions use
+      data: json.data ?? json.input ?? undefined,
+      hash: json.hash ?? undefined,
+    });
+  }
+
+  private parseCsv(text: string, line: number): BatchRecord {
+    const record: BatchRecord = { line };
+    splitCsv(text).forEach((field, index) => {
+      const column = this.columns[index];
+      if (field !== '' && (column === 'to' || column === 'data' || column === 'hash')) {
+        record[column] = field;
+      }
+    });
+    return validate(record);
+  }
+}
+
+/**
+ * Check a record has something to decode and that its fields are hex
+ */
+function validate(record: BatchRecord): BatchRecord {
+  if (!record.data && !record.hash) {
+    return { ...record, error: 'Record has neither data nor hash' };
+  }
+
+  for (const field of RECORD_FIELDS) {
+    const value = record[field];
+    if (value !== undefined && (typeof value !== 'string' || !HEX.test(value))) {
+      return { ...record, error: `Invalid ${field}: expected a 0x-prefixed hex string` };
+    }
+  }
+
+  return record;
+}
+
+function splitCsv(line: string): string[] {
+  return line.split(',').map((field) => field.trim().replace(/^"(.*)"$/, '$1'));
+}
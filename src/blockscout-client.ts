@@ -0,0 +1,49 @@
+import { EtherscanClient, type EtherscanConfig } from './etherscan-client';
+import { toNetworkConfig } from './networks';
+
+/**
+ * Client for Blockscout's Etherscan-compatible API (e.g. https://eth.blockscout.com/api)
+ * Each Blockscout instance serves a single chain, so requests carry no chain id.
+ */
+export class BlockscoutClient extends EtherscanClient {
+  readonly name: string = 'blockscout';
+
+  constructor(config: EtherscanConfig = {}) {
+    super(config);
+
+    const network = toNetworkConfig(config.network);
+    if (!network.explorerApiUrl) {
+      throw new Error(`Network ${network.name} has no Blockscout API URL (explorerApiUrl)`);
+    }
+  }
+
+  // Keys are per instance, the Etherscan key is never sent to a Blockscout host
+  protected defaultApiKeyEnv(): string | undefined {
+    return undefined;
+  }
+
+  // Blockscout instances allow more requests than Etherscan, especially without a key
+  protected requestsPerSecond(): number {
+    return this.apiKey ? 10 : 5;
+  }
+
+  protected requestParams(action: string, address: string): Record<string, unknown> {
+    const { chainid, ...params } = super.requestParams(action, address);
+    return params;
+  }
+
+  protected cacheKey(address: string): string {
+    return `blockscout:${super.cacheKey(address)}`;
+  }
+
+  /**
+   * Blockscout names the implementation `ImplementationAddress` and flags proxies with `IsProxy`
+   */
+  protected toSourceInfo(result: any): any {
+    return {
+      ...result,
+      Implementation: result.Implementation || result.ImplementationAddress || '',
+      Proxy: result.IsProxy === 'true' || result.IsProxy === true ? '1' : result.Proxy,
+    };
+  }
+}
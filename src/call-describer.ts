@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatEther, formatUnits } from 'viem';
+import { BUILTIN_DESCRIPTION_PACKS, type DescriptionPack } from './description-packs';
+import { decodeV3Path } from './universal-router';
+import { formatDecimal, type TokenMetadataProvider } from './value-formatter';
+import type { AddressBook } from './address-book';
+import type { DecodedCall, DecodedParam } from './types';
+
+export interface CallDescriberOptions {
+  // Defaults to the built-in packs
+  packs?: readonly DescriptionPack[];
+  // Labels of tokens and accounts that aren't labeled in the decoded params (e.g. path tokens)
+  addressBook?: AddressBook;
+  // Without a provider token amounts are shown in base units
+  tokenProvider?: TokenMetadataProvider;
+}
+
+// A resolved placeholder reference
+interface Resolved {
+  value: any;
+  param?: DecodedParam;
+}
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * One-line descriptions of decoded calls from sentence templates, e.g. "Approve 1,000 USDC to Permit2"
+ * Packs added later take precedence over earlier ones and the built-in packs.
+ */
+export class CallDescriber {
+  private packs: DescriptionPack[];
+  private addressBook?: AddressBook;
+  private tokenProvider?: TokenMetadataProvider;
+
+  constructor(options: CallDescriberOptions = {}) {
+    this.packs = [...(options.packs ?? BUILTIN_DESCRIPTION_PACKS)];
+    this.addressBook = options.addressBook;
+    this.tokenProvider = options.tokenProvider;
+  }
+
+  /**
+   * Default packs location: $XDG_CONFIG_HOME/multicall-decoder/templates.json
+   * or ~/.config/multicall-decoder/templates.json
+   */
+  static defaultPath(): string {
+    const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(base, 'multicall-decoder', 'templates.json');
+  }
+
+  /**
+   * Load user packs: a pack `{ "name", "templates": { "<signature>": "<template>" } }` or a list of packs
+   */
+  static loadPacks(filePath: string): DescriptionPack[] {
+    let json: any;
+    try {
+      json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to read templates ${filePath}: ${error.message}`);
+    }
+
+    const packs = Array.isArray(json) ? json : [json];
+    for (const pack of packs) {
+      if (!pack || typeof pack.templates !== 'object' || Array.isArray(pack.templates)) {
+        throw new Error(`Templates ${filePath}: every pack needs a "templates" object`);
+      }
+      for (const [signature, template] of Object.entries(pack.templates)) {
+        if (typeof template !== 'string') {
+          throw new Error(`Templates ${filePath}: template of ${signature} must be a string`);
+        }
+      }
+    }
+
+    return packs.map((pack) => ({ name: pack.name || path.basename(filePath, '.json'), templates: pack.templates }));
+  }
+
+  /**
+   * Add a pack, checked before the packs already added
+   */
+  addPack(pack: DescriptionPack): void {
+    this.packs.unshift(pack);
+  }
+
+  /**
+   * Set `description` on decoded calls and their nested calls that match a template
+   */
+  async describeCalls(calls: DecodedCall[]): Promise<void> {
+    for (const call of calls) {
+      const description = await this.describe(call);
+      if (description) {
+        call.description = description;
+      }
+      await this.describeCalls(call.children || []);
+    }
+  }
+
+  /**
+   * Describe a single call
+   * Returns undefined when no template matches or a placeholder can't be resolved.
+   */
+  async describe(call: DecodedCall): Promise<string | undefined> {
+    const template = this.packs.find((pack) => call.functionSignature in pack.templates)?.templates[call.functionSignature];
+    if (template === undefined) {
+      return undefined;
+    }
+
+    const placeholders = [...template.matchAll(PLACEHOLDER)];
+    const rendered: string[] = [];
+    for (const [, placeholder] of placeholders) {
+      const text = await this.renderPlaceholder(call, placeholder);
+      if (text === undefined) {
+        return undefined;
+      }
+      rendered.push(text);
+    }
+
+    let index = 0;
+    return template.replace(PLACEHOLDER, () => rendered[index++]);
+  }
+
+  private async renderPlaceholder(call: DecodedCall, placeholder: string): Promise<string | undefined> {
+    const condition = placeholder.match(/^([^?]+)\?([^:]*):(.*)$/);
+    if (condition) {
+      const resolved = resolve(call, condition[1]);
+      return resolved ? (isTruthy(resolved.value) ? condition[2] : condition[3]) : undefined;
+    }
+
+    const [reference, tokenReference] = placeholder.split('@');
+    const resolved = resolve(call, reference);
+    if (!resolved) {
+      return undefined;
+    }
+
+    if (tokenReference === undefined) {
+      return this.renderValue(resolved);
+    }
+    if (tokenReference === '$eth') {
+      return `${formatDecimal(formatEther(BigInt(resolved.value)))} ETH`;
+    }
+
+    const token = resolve(call, tokenReference);
+    return token ? this.renderAmount(resolved, String(token.value), token.param?.label) : undefined;
+  }
+
+  private renderValue({ value, param }: Resolved): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item, index) => this.renderValue({ value: item, param: param?.components?.[index] })).join(', ')}]`;
+    }
+    if (typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)) {
+      return this.labelOf(value, param?.label);
+    }
+    return param?.formatted ?? String(value);
+  }
+
+  private async renderAmount({ value, param }: Resolved, token: string, tokenLabel?: string): Promise<string> {
+    const metadata = this.tokenProvider ? await this.tokenProvider.getTokenMetadata(token).catch(() => null) : null;
+    const name = metadata?.symbol ?? this.labelOf(token, tokenLabel);
+
+    if (param?.formatted === 'unlimited') {
+      return `unlimited ${name}`;
+    }
+    if (metadata) {
+      return `${formatDecimal(formatUnits(BigInt(value), metadata.decimals))} ${name}`;
+    }
+    return `${String(value)} base units of ${name}`;
+  }
+
+  private labelOf(address: string, label?: string): string {
+    return label ?? this.addressBook?.get(address)?.label ?? address;
+  }
+}
+
+/**
+ * Resolve a placeholder reference: `$target`, `$value`, or a `.` path of argument positions / names
+ */
+function resolve(call: DecodedCall, reference: string): Resolved | undefined {
+  if (reference === '$target') {
+    return { value: call.target, param: { name: '', type: 'address', value: call.target, label: call.targetLabel } };
+  }
+  if (reference === '$value') {
+    return { value: call.value ?? 0n, param: { name: '', type: 'uint256', formatted: `${formatDecimal(formatEther(call.value ?? 0n))} ETH` } };
+  }
+
+  const params: DecodedParam[] = call.params ?? call.args.map((arg) => ({ name: '', type: '', value: arg }));
+  let current: Resolved | undefined;
+  let siblings: DecodedParam[] | undefined = params;
+
+  for (const segment of reference.split('.')) {
+    if ((segment === 'first' || segment === 'last') && current) {
+      current = pathEnd(current, segment);
+    } else {
+      const param: DecodedParam | undefined = /^\d+$/.test(segment)
+        ? siblings?.[Number(segment)]
+        : siblings?.find((sibling) => sibling.name === segment);
+      current = param ? { value: param.components ? param.components.map((component) => component.value) : param.value, param } : undefined;
+    }
+
+    if (!current) {
+      return undefined;
+    }
+    siblings = current.param?.components;
+  }
+
+  return current;
+}
+
+/**
+ * First or last element of an array, or first / last token of a Uniswap V3 path
+ */
+function pathEnd({ value, param }: Resolved, end: 'first' | 'last'): Resolved | undefined {
+  if (param?.components && param.components.length > 0) {
+    const element = end === 'first' ? param.components[0] : param.components[param.components.length - 1];
+    return { value: element.value, param: element };
+  }
+
+  if (Array.isArray(value) && value.length > 0) {
+    return { value: end === 'first' ? value[0] : value[value.length - 1] };
+  }
+
+  if (typeof value === 'string' && value.startsWith('0x')) {
+    try {
+      const hops = decodeV3Path(value);
+      const address = end === 'first' ? hops[0].tokenIn : hops[hops.length - 1].tokenOut;
+      return { value: address, param: { name: '', type: 'address', value: address } };
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: any): boolean {
+  return value === true || (typeof value === 'bigint' && value !== 0n) || (typeof value === 'number' && value !== 0);
+}
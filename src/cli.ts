@@ -1,210 +1,1097 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
-import { Command } from 'commander';
+import * as fs from 'fs';
+import type { Readable } from 'stream';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
+import { formatEther, isAddress } from 'viem';
 import { MulticallDecoder } from './decoder';
-import { EtherscanClient } from './etherscan-client';
-import { Explainer } from './explainer';
-import type { DecoderOptions } from './types';
+import { createContractSource, type ContractInfo, type ContractSource } from './contract-source';
+import { NetworkRegistry, BUILTIN_NETWORKS, type NetworkConfig } from './networks';
+import { Explainer, type Explanation } from './explainer';
+import { createExplainerBackend, EXPLAINER_BACKEND_NAMES } from './explainer-backends';
+import { createSignatureProviders, SIGNATURE_PROVIDER_NAMES } from './signature-providers';
+import { isAmbiguous } from './signature-ranking';
+import { DiskCache, CACHE_NAMESPACES, type CacheNamespace } from './disk-cache';
+import { AbiRegistry } from './abi-registry';
+import { AddressBook } from './address-book';
+import { CallDescriber } from './call-describer';
+import { readBatchRecords, type BatchRecord } from './batch-input';
+import { formatDecodedParams } from './decoded-params';
+import { MulticallEncoder, parseBatchSpec, ENCODE_FORMATS, type EncodeFormat } from './encoder';
+import { ValueFormatter, RpcTokenMetadataProvider } from './value-formatter';
+import { RpcClient, resolveRpcUrl, type TransactionInfo } from './rpc-client';
+import { RiskAnalyzer, RISK_SEVERITIES, compareSeverity, hasFindingsAtOrAbove } from './risk-rules';
+import { CallSimulator, parseBlockTag, type SimulationRequest, type SimulationResult } from './simulator';
+import { toJson, toJsonOutput } from './json-output';
+import type { DecodedCall, DecoderOptions, RiskFinding, RiskSeverity } from './types';
 
 const program = new Command();
 
 program
   .name('multicall-decoder')
-  .description('Decode multicall transaction data using 4byte directory and Etherscan API')
+  .description('Decode multicall transaction data using signature databases and block explorer APIs')
   .version('1.0.0');
 
-program
+const decodeCommand = program
   .command('decode')
   .description('Decode multicall transaction data')
-  .argument('<data>', 'Multicall transaction data (hex string)')
-  .option('-k, --api-key <key>', 'Etherscan API key (or set ETHERSCAN_API_KEY env var)')
-  .option(
-    '-n, --network <network>',
-    'Network to use (mainnet, goerli, sepolia, polygon, arbitrum, optimism, base)',
-    'mainnet'
-  )
-  .option('-v, --verbose', 'Enable verbose output', false)
-  .option('-j, --json', 'Output as JSON', false)
-  .option('-e, --explain', 'Explain the decoded calls using Claude CLI', false)
-  .action(async (data: string, options: any) => {
+  .argument('[data]', 'Multicall transaction data (hex string), `-` to read records from stdin, omit when using --tx or --input');
+addDecoderOptions(decodeCommand);
+addCallOptions(decodeCommand);
+addExplainerOptions(decodeCommand, 'calls');
+decodeCommand
+  .option('-t, --to <address>', 'Address the batch is sent to (required for self-call multicall(bytes[]))', parseAddress)
+  .option('--tx <hash>', 'Fetch and decode a transaction by hash (requires an RPC URL)')
+  .option('-i, --input <file>', 'Decode every record of a file: one calldata per line, or CSV/JSONL of to, data, hash')
+  .option('--simulate', 'Run the batch and each subcall with eth_call (requires an RPC URL, and --to without --tx)', false)
+  .option('--from <address>', 'Sender of the simulated batch (defaults to the transaction sender with --tx)', parseAddress)
+  .option('--safe <address>', 'Safe that delegatecalls a simulated multiSend batch, the sender of its subcalls', parseAddress)
+  .option('--block <block>', 'Block number or tag to simulate at', 'latest')
+  .action(async (data: string | undefined, options: any) => {
     try {
-      const decoderOptions: DecoderOptions = {
-        etherscanApiKey: options.apiKey,
-        network: options.network,
-        verbose: options.verbose,
-      };
+      const sources = [data, options.tx, options.input].filter((source) => source !== undefined);
+      if (sources.length === 0) {
+        throw new Error('Provide multicall data, a transaction hash (--tx) or an input file (--input)');
+      }
+      if (sources.length > 1) {
+        throw new Error('Provide only one of multicall data, --tx or --input');
+      }
 
-      const decoder = new MulticallDecoder(decoderOptions);
+      // Batch input is streamed as NDJSON, one line per record
+      if (data === '-' || options.input) {
+        if (options.explain || options.simulate) {
+          throw new Error(`${options.explain ? '--explain' : '--simulate'} is not supported with batch input`);
+        }
+        if (options.input && !fs.existsSync(options.input)) {
+          throw new Error(`Input file not found: ${options.input}`);
+        }
+        await decodeBatch(data === '-' ? process.stdin : fs.createReadStream(options.input), options);
+        return;
+      }
+
+      const decoder = new MulticallDecoder(getDecoderOptions(options));
 
       if (options.verbose) {
         console.log(chalk.blue('Starting multicall decoding...\n'));
       }
 
-      const decodedCalls = await decoder.decodeMulticall(data);
+      let decodedCalls: DecodedCall[];
+      let simulationRequest: SimulationRequest | undefined;
+      if (options.tx) {
+        const { transaction, calls } = await decoder.decodeTransaction(options.tx);
+        decodedCalls = calls;
+        simulationRequest = {
+          to: transaction.to!,
+          data: transaction.input,
+          from: options.from ?? transaction.from,
+          value: transaction.value,
+          safe: options.safe,
+        };
 
-      // Fetch contract names for display
-      const etherscanClient = new EtherscanClient({
-        apiKey: options.apiKey,
-        network: options.network,
-      });
+        if (!options.json) {
+          printTransaction(transaction);
+        }
+      } else {
+        decodedCalls = await decoder.decodeMulticall(data!, options.to);
+        if (options.to) {
+          simulationRequest = { to: options.to, data: data!, from: options.from, safe: options.safe };
+        }
+      }
+
+      let simulation: SimulationResult | undefined;
+      if (options.simulate) {
+        simulation = await simulateCalls(decoder, decodedCalls, simulationRequest, options);
+      }
+
+      await createValueFormatter(options).formatCalls(decodedCalls);
 
-      const contractInfoMap = new Map();
-      const uniqueAddresses = [...new Set(decodedCalls.map(call => call.target.toLowerCase()))];
+      // Fetch contract names for display
+      const contractInfoMap = await fetchContractInfo(decodedCalls, options);
+      const addressBook = createAddressBook(options);
+      labelAddresses(decodedCalls, contractInfoMap, addressBook);
+      await createCallDescriber(addressBook, options).describeCalls(decodedCalls);
+      const findings = await analyzeRisks(decodedCalls, contractInfoMap, options);
 
-      for (const address of uniqueAddresses) {
-        const contractInfo = await etherscanClient.getContractInfo(address);
-        contractInfoMap.set(address, contractInfo);
+      let explanation: Explanation | undefined;
+      let explainer: Explainer | undefined;
+      if (options.explain) {
+        explainer = await createExplainer(options);
+        explanation = await explainer.explainMulticall(decodedCalls, contractInfoMap);
       }
 
       if (options.json) {
-        console.log(JSON.stringify(decodedCalls, null, 2));
+        console.log(toJson(toJsonOutput(decodedCalls, { simulation, explanation })));
       } else {
+        if (simulation) {
+          printSimulation(simulation);
+        }
         printDecodedCalls(decodedCalls, contractInfoMap);
-      }
-
-      // If explain flag is set, get explanation from Claude
-      if (options.explain) {
-        console.log(chalk.blue('\n' + '='.repeat(60)));
-        console.log(chalk.bold.blue('AI Explanation'));
-        console.log(chalk.blue('='.repeat(60) + '\n'));
-
-        const explainer = new Explainer();
-
-        // Check if Claude CLI is available
-        const claudeAvailable = await explainer.isClaudeAvailable();
-        if (!claudeAvailable) {
-          console.error(chalk.red('Error: Claude CLI is not available.'));
-          console.error(chalk.yellow('Please install the claude CLI to use the --explain flag.'));
-          process.exit(1);
+        if (explainer && explanation) {
+          printExplanation(explainer, explanation);
         }
-
-        // Get explanation
-        const explanation = await explainer.explainMulticall(decodedCalls, contractInfoMap);
-        console.log(explanation);
-        console.log();
       }
+
+      failOnRisks(findings, options);
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
 
-program
+const decodeCallCommand = program
   .command('decode-call')
   .description('Decode a single contract call')
   .argument('<target>', 'Target contract address')
-  .argument('<data>', 'Call data (hex string)')
-  .option('-k, --api-key <key>', 'Etherscan API key (or set ETHERSCAN_API_KEY env var)')
-  .option(
-    '-n, --network <network>',
-    'Network to use (mainnet, goerli, sepolia, polygon, arbitrum, optimism, base)',
-    'mainnet'
-  )
-  .option('-v, --verbose', 'Enable verbose output', false)
-  .option('-j, --json', 'Output as JSON', false)
-  .option('-e, --explain', 'Explain the decoded call using Claude CLI', false)
+  .argument('<data>', 'Call data (hex string)');
+addDecoderOptions(decodeCallCommand);
+addCallOptions(decodeCallCommand);
+addExplainerOptions(decodeCallCommand, 'call');
+decodeCallCommand
   .action(async (target: string, data: string, options: any) => {
     try {
-      const decoderOptions: DecoderOptions = {
-        etherscanApiKey: options.apiKey,
-        network: options.network,
-        verbose: options.verbose,
-      };
-
-      const decoder = new MulticallDecoder(decoderOptions);
+      const decoder = new MulticallDecoder(getDecoderOptions(options));
 
       if (options.verbose) {
         console.log(chalk.blue('Decoding call...\n'));
       }
 
       const decodedCall = await decoder.decodeCall(target, data);
+      await createValueFormatter(options).formatCalls([decodedCall]);
 
       // Fetch contract info
-      const etherscanClient = new EtherscanClient({
-        apiKey: options.apiKey,
-        network: options.network,
-      });
+      const contractInfoMap = await fetchContractInfo([decodedCall], options);
+      const addressBook = createAddressBook(options);
+      labelAddresses([decodedCall], contractInfoMap, addressBook);
+      await createCallDescriber(addressBook, options).describeCalls([decodedCall]);
+      const findings = await analyzeRisks([decodedCall], contractInfoMap, options);
+      const contractInfo = contractInfoMap.get(target.toLowerCase());
 
-      const contractInfo = await etherscanClient.getContractInfo(target);
-      const contractInfoMap = new Map();
-      contractInfoMap.set(target.toLowerCase(), contractInfo);
+      let explanation: Explanation | undefined;
+      let explainer: Explainer | undefined;
+      if (options.explain) {
+        explainer = await createExplainer(options);
+        explanation = await explainer.explainCall(decodedCall, contractInfo);
+      }
 
       if (options.json) {
-        console.log(JSON.stringify(decodedCall, null, 2));
+        console.log(toJson(toJsonOutput(decodedCall, { explanation })));
       } else {
         printDecodedCalls([decodedCall], contractInfoMap);
+        if (explainer && explanation) {
+          printExplanation(explainer, explanation);
+        }
       }
 
-      // If explain flag is set, get explanation from Claude
-      if (options.explain) {
-        console.log(chalk.blue('\n' + '='.repeat(60)));
-        console.log(chalk.bold.blue('AI Explanation'));
-        console.log(chalk.blue('='.repeat(60) + '\n'));
-
-        const explainer = new Explainer();
-
-        // Check if Claude CLI is available
-        const claudeAvailable = await explainer.isClaudeAvailable();
-        if (!claudeAvailable) {
-          console.error(chalk.red('Error: Claude CLI is not available.'));
-          console.error(chalk.yellow('Please install the claude CLI to use the --explain flag.'));
-          process.exit(1);
-        }
+      failOnRisks(findings, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
 
-        // Get explanation
-        const explanation = await explainer.explainCall(decodedCall, contractInfo);
-        console.log(explanation);
-        console.log();
+const decodeResultCommand = program
+  .command('decode-result')
+  .description('Decode multicall transaction data together with its return data')
+  .argument('<data>', 'Multicall transaction data (hex string)')
+  .argument('<returnData>', 'Return data of the multicall, e.g. from eth_call (hex string)');
+addDecoderOptions(decodeResultCommand);
+addCallOptions(decodeResultCommand);
+decodeResultCommand
+  .option('-t, --to <address>', 'Address the batch is sent to (required for self-call multicall(bytes[]))', parseAddress)
+  .action(async (data: string, returnData: string, options: any) => {
+    try {
+      const decoder = new MulticallDecoder(getDecoderOptions(options));
+
+      if (options.verbose) {
+        console.log(chalk.blue('Decoding multicall results...\n'));
+      }
+
+      const decodedCalls = await decoder.decodeMulticallResult(data, returnData, options.to);
+
+      await createValueFormatter(options).formatCalls(decodedCalls);
+
+      // Fetch contract names for display
+      const contractInfoMap = await fetchContractInfo(decodedCalls, options);
+      const addressBook = createAddressBook(options);
+      labelAddresses(decodedCalls, contractInfoMap, addressBook);
+      await createCallDescriber(addressBook, options).describeCalls(decodedCalls);
+      const findings = await analyzeRisks(decodedCalls, contractInfoMap, options);
+
+      if (options.json) {
+        console.log(toJson(toJsonOutput(decodedCalls)));
+      } else {
+        printDecodedCalls(decodedCalls, contractInfoMap);
       }
+
+      failOnRisks(findings, options);
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
 
-function printDecodedCalls(calls: any[], contractInfoMap?: Map<string, any>) {
-  console.log(chalk.bold.green(`\nDecoded ${calls.length} call(s):\n`));
+/**
+ * Simulate a decoded batch over JSON-RPC, attaching a result to each call
+ */
+async function simulateCalls(
+  decoder: MulticallDecoder,
+  calls: DecodedCall[],
+  request: SimulationRequest | undefined,
+  options: any
+): Promise<SimulationResult> {
+  const rpcUrl = resolveRpcUrl(getNetwork(options), options.rpcUrl);
+  if (!rpcUrl) {
+    throw new Error('--simulate requires an RPC URL (--rpc-url or <NETWORK>_RPC_URL)');
+  }
+  if (!request) {
+    throw new Error('--simulate requires the batch address (--to) or a transaction (--tx)');
+  }
 
-  calls.forEach((call, index) => {
-    const contractInfo = contractInfoMap?.get(call.target.toLowerCase());
-
-    console.log(chalk.bold.cyan(`Call ${index + 1}:`));
-    console.log(chalk.gray('─'.repeat(60)));
-    console.log(chalk.yellow('Target:'), call.target);
-
-    if (contractInfo && contractInfo.name !== 'Unknown Contract') {
-      if (contractInfo.isProxy && contractInfo.implementationName) {
-        // Show proxy with implementation
-        console.log(chalk.yellow('Contract:'), chalk.green(`${contractInfo.name} (Proxy)`));
-        console.log(chalk.yellow('Implementation:'), chalk.green(contractInfo.implementationName));
-      } else if (contractInfo.isProxy) {
-        // Proxy but no implementation name
-        console.log(chalk.yellow('Contract:'), chalk.green(`${contractInfo.name} (Proxy)`));
+  // The batch sends the ETH of its calls unless the transaction says otherwise
+  const value = request.value ?? calls.reduce((total, call) => total + (call.value ?? 0n), 0n);
+
+  const simulator = new CallSimulator({
+    rpcClient: new RpcClient({ rpcUrl }),
+    decoder,
+    block: parseBlockTag(options.block),
+  });
+  return simulator.simulate(calls, { ...request, value });
+}
+
+/**
+ * Explainer for --explain with the backend picked by --explainer
+ * Fails early with a hint when the backend can't be used.
+ */
+async function createExplainer(options: any): Promise<Explainer> {
+  const backend = createExplainerBackend(options.explainer, {
+    timeout: options.explainerTimeout * 1000,
+    baseUrl: options.explainerUrl,
+    model: options.explainerModel,
+  });
+
+  if (!(await backend.isAvailable())) {
+    const hint = options.explainer === 'http'
+      ? 'Set --explainer-url or EXPLAINER_BASE_URL to a chat completions endpoint.'
+      : `Install the ${backend.name} CLI, or use --explainer http or --explainer template.`;
+    throw new Error(`Explainer ${backend.name} is not available. ${hint}`);
+  }
+
+  return new Explainer(backend, { cache: getDiskCache(options) });
+}
+
+function printExplanation(explainer: Explainer, explanation: Explanation): void {
+  console.log(chalk.blue('\n' + '='.repeat(60)));
+  console.log(chalk.bold.blue(`Explanation (${explanation.backend})`));
+  console.log(chalk.blue('='.repeat(60) + '\n'));
+  console.log(explainer.formatExplanation(explanation));
+  console.log();
+}
+
+/**
+ * Options of every decoding command: network, explorer, ABI and signature sources, output
+ */
+function addDecoderOptions(command: Command): Command {
+  return command
+    .option('-k, --api-key <key>', "Explorer API key (or set the network's API key env var, ETHERSCAN_API_KEY by default)")
+    .option(
+      '-n, --network <network>',
+      `Network to use (${BUILTIN_NETWORKS.map((network) => network.name).join(', ')}, or one from the networks file)`,
+      'mainnet'
+    )
+    .option('--chain-id <id>', 'Chain id of the network to use, overrides --network', parseChainId)
+    .option('--networks <file>', 'Network definitions (defaults to ~/.config/multicall-decoder/networks.json)')
+    .option('-v, --verbose', 'Enable verbose output', false)
+    .option('-j, --json', 'Output as JSON', false)
+    .option('--offline', 'Only use local sources (no Etherscan or remote signature databases)', false)
+    .option('--no-cache', 'Disable the persistent cache')
+    .option('--abi <address=file>', 'Use a local ABI or Foundry/Hardhat artifact for an address (repeatable)', collectAbiBinding, [])
+    .option('--abi-dir <dir>', 'Load every ABI/artifact in a directory, matched by selector (repeatable)', collectValue, [])
+    .option(
+      '-s, --signature-providers <providers>',
+      'Comma-separated signature providers in query order (local, 4byte, openchain)',
+      parseProviderNames,
+      ['local', '4byte', 'openchain']
+    )
+    .option('-r, --rpc-url <url>', 'JSON-RPC endpoint (or set <NETWORK>_RPC_URL / RPC_URL env var)');
+}
+
+/**
+ * Options of the commands that decode calls: nesting, labels, descriptions and risk rules
+ */
+function addCallOptions(command: Command): Command {
+  return command
+    .option('-d, --max-depth <depth>', 'Maximum depth for decoding nested calls', parseDepth, 3)
+    .option('--address-book <file>', 'Address labels per chain (defaults to ~/.config/multicall-decoder/address-book.json)')
+    .option('--templates <file>', 'Description templates for known functions (repeatable, defaults to ~/.config/multicall-decoder/templates.json)', collectValue, [])
+    .option('--risk-config <file>', 'Risk rules configuration (defaults to ~/.config/multicall-decoder/risk-rules.json)')
+    .option('--fail-on <severity>', `Exit with code 2 when a risk finding is at or above a severity (${RISK_SEVERITIES.join(', ')})`, parseSeverity);
+}
+
+/**
+ * Options of the commands that can explain their output
+ * @param subject What gets explained, for the help text
+ */
+function addExplainerOptions(command: Command, subject: string): Command {
+  return command
+    .option('-e, --explain', `Explain the decoded ${subject} (see --explainer)`, false)
+    .option('--explainer <name>', `Explanation backend for --explain (${EXPLAINER_BACKEND_NAMES.join(', ')})`, parseExplainerName, 'claude')
+    .option('--explainer-url <url>', 'Base URL of the chat completions endpoint (or set EXPLAINER_BASE_URL)')
+    .option('--explainer-model <model>', 'Model for the http explainer (or set EXPLAINER_MODEL)')
+    .option('--explainer-timeout <seconds>', 'Timeout of the explainer', parseSeconds, 120);
+}
+
+/**
+ * Build decoder options from the shared command options
+ */
+function getDecoderOptions(options: any): DecoderOptions {
+  return {
+    network: getNetwork(options),
+    contractSource: getContractSource(options),
+    rpcUrl: options.rpcUrl,
+    verbose: options.verbose,
+    maxDepth: options.maxDepth,
+    offline: options.offline,
+    signatureProviders: createSignatureProviders(options.signatureProviders),
+    cache: getDiskCache(options),
+    abiRegistry: loadAbiRegistry(options),
+  };
+}
+
+/**
+ * Build the local ABI registry from --abi and --abi-dir
+ */
+function loadAbiRegistry(options: any): AbiRegistry {
+  const registry = new AbiRegistry();
+
+  for (const directory of options.abiDir || []) {
+    const count = registry.loadDirectory(directory);
+    if (options.verbose) {
+      console.log(chalk.blue(`Loaded ${count} ABI file(s) from ${directory}`));
+    }
+  }
+
+  for (const { address, file } of options.abi || []) {
+    registry.registerFile(file, address);
+  }
+
+  return registry;
+}
+
+let network: NetworkConfig | undefined;
+
+/**
+ * Network from --chain-id or --network, with the definitions of --networks or the default file
+ */
+function getNetwork(options: any): NetworkConfig {
+  if (!network) {
+    network = createNetworkRegistry(options).resolve(options.chainId ?? options.network);
+  }
+  return network;
+}
+
+function createNetworkRegistry(options: any): NetworkRegistry {
+  const registry = new NetworkRegistry();
+
+  const file = options.networks || NetworkRegistry.defaultPath();
+  if (options.networks || fs.existsSync(file)) {
+    registry.loadFile(file);
+  }
+
+  return registry;
+}
+
+let contractSource: ContractSource | undefined;
+
+/**
+ * Contract source of the network, shared by the decoder and contract info lookups
+ */
+function getContractSource(options: any): ContractSource {
+  contractSource = contractSource || createContractSource(getNetwork(options), {
+    apiKey: options.apiKey,
+    cache: getDiskCache(options),
+  });
+  return contractSource;
+}
+
+let diskCache: DiskCache | undefined;
+
+/**
+ * Shared persistent cache, unless disabled with --no-cache
+ */
+function getDiskCache(options: any): DiskCache | undefined {
+  if (options.cache === false) {
+    return undefined;
+  }
+  diskCache = diskCache || new DiskCache();
+  return diskCache;
+}
+
+/**
+ * Value formatter for decoded params
+ * Token decimals and symbols are read over JSON-RPC when an endpoint is configured.
+ */
+function createValueFormatter(options: any): ValueFormatter {
+  return new ValueFormatter({ tokenProvider: getTokenProvider(options) });
+}
+
+let tokenProvider: RpcTokenMetadataProvider | undefined;
+
+/**
+ * Shared token metadata over JSON-RPC, when an endpoint is configured
+ */
+function getTokenProvider(options: any): RpcTokenMetadataProvider | undefined {
+  const rpcUrl = resolveRpcUrl(getNetwork(options), options.rpcUrl);
+  if (!rpcUrl) {
+    return undefined;
+  }
+  tokenProvider = tokenProvider || new RpcTokenMetadataProvider(new RpcClient({ rpcUrl }));
+  return tokenProvider;
+}
+
+/**
+ * Fetch contract info for every target in a tree of decoded calls
+ * Addresses already in `contractInfoMap` are not fetched again. Skipped in offline mode.
+ */
+async function fetchContractInfo(
+  calls: DecodedCall[],
+  options: any,
+  contractInfoMap: Map<string, ContractInfo> = new Map()
+): Promise<Map<string, ContractInfo>> {
+  if (options.offline) {
+    return contractInfoMap;
+  }
+
+  const contractSource = getContractSource(options);
+  const uniqueAddresses = [...new Set(flattenCalls(calls).map(call => call.target.toLowerCase()))]
+    .filter((address) => !contractInfoMap.has(address));
+
+  // Looked up concurrently, the contract source paces the requests
+  const contractInfos = await Promise.all(uniqueAddresses.map((address) => contractSource.getContractInfo(address)));
+  uniqueAddresses.forEach((address, index) => contractInfoMap.set(address, contractInfos[index]));
+
+  return contractInfoMap;
+}
+
+/**
+ * Address book from --address-book, or the default file when it exists
+ */
+function createAddressBook(options: any): AddressBook {
+  const addressBook = new AddressBook({ network: getNetwork(options) });
+
+  const file = options.addressBook || AddressBook.defaultPath();
+  if (options.addressBook || fs.existsSync(file)) {
+    addressBook.loadFile(file);
+  }
+
+  return addressBook;
+}
+
+/**
+ * Call describer with the built-in packs and the packs from --templates, or the default file when it exists
+ */
+function createCallDescriber(addressBook: AddressBook, options: any): CallDescriber {
+  const describer = new CallDescriber({ addressBook, tokenProvider: getTokenProvider(options) });
+
+  const files: string[] = options.templates?.length ? options.templates : [CallDescriber.defaultPath()];
+  for (const file of files) {
+    if (options.templates?.length || fs.existsSync(file)) {
+      CallDescriber.loadPacks(file).forEach((pack) => describer.addPack(pack));
+    }
+  }
+
+  return describer;
+}
+
+/**
+ * Label targets and address arguments from the address book, well-known addresses and Etherscan names
+ */
+function labelAddresses(calls: DecodedCall[], contractInfoMap: Map<string, ContractInfo>, addressBook: AddressBook): void {
+  for (const [address, contractInfo] of contractInfoMap) {
+    if (contractInfo.name !== 'Unknown Contract') {
+      addressBook.set(address, contractInfo.name, 'etherscan');
+    }
+  }
+
+  addressBook.labelCalls(calls);
+}
+
+/**
+ * Risk analyzer configured from --risk-config, or the default file when it exists
+ * Targets are checked for code over JSON-RPC when an endpoint is configured.
+ */
+function createRiskAnalyzer(contractInfoMap: Map<string, ContractInfo>, options: any): RiskAnalyzer {
+  const file = options.riskConfig || RiskAnalyzer.defaultPath();
+  const config = (options.riskConfig || fs.existsSync(file)) ? RiskAnalyzer.loadConfig(file) : {};
+  const rpcUrl = resolveRpcUrl(getNetwork(options), options.rpcUrl);
+
+  return new RiskAnalyzer({
+    config,
+    rpcClient: rpcUrl ? new RpcClient({ rpcUrl }) : undefined,
+    contractInfo: contractInfoMap,
+  });
+}
+
+/**
+ * Run the risk rules over decoded calls, attaching the findings to each call
+ */
+async function analyzeRisks(
+  calls: DecodedCall[],
+  contractInfoMap: Map<string, ContractInfo>,
+  options: any
+): Promise<RiskFinding[]> {
+  return createRiskAnalyzer(contractInfoMap, options).analyze(calls);
+}
+
+/**
+ * Set exit code 2 when --fail-on is given and a finding reaches its severity
+ */
+function failOnRisks(findings: RiskFinding[], options: any): void {
+  if (options.failOn && hasFindingsAtOrAbove(findings, options.failOn)) {
+    console.error(chalk.red(`Risk findings at or above ${options.failOn}, failing`));
+    process.exitCode = 2;
+  }
+}
+
+/**
+ * Decode every record of a batch input, streaming one NDJSON line per record
+ * The decoder, contract info and token metadata are shared by all records.
+ * A summary of the failed records is written to stderr at the end.
+ */
+async function decodeBatch(input: Readable, options: any): Promise<void> {
+  const decoder = new MulticallDecoder(getDecoderOptions(options));
+  const valueFormatter = createValueFormatter(options);
+  const addressBook = createAddressBook(options);
+  const callDescriber = createCallDescriber(addressBook, options);
+  const contractInfoMap = new Map<string, ContractInfo>();
+  const riskAnalyzer = createRiskAnalyzer(contractInfoMap, options);
+  const failures: { record: number; line: number; error: string }[] = [];
+  let riskyRecords = 0;
+  let count = 0;
+
+  for await (const record of readBatchRecords(input)) {
+    count++;
+    const { line, to, hash } = record;
+
+    try {
+      if (record.error) {
+        throw new Error(record.error);
+      }
+
+      const calls = await decodeRecord(decoder, record);
+      await valueFormatter.formatCalls(calls);
+      await fetchContractInfo(calls, options, contractInfoMap);
+      labelAddresses(calls, contractInfoMap, addressBook);
+      await callDescriber.describeCalls(calls);
+      const findings = await riskAnalyzer.analyze(calls);
+      if (options.failOn && hasFindingsAtOrAbove(findings, options.failOn)) {
+        riskyRecords++;
+      }
+
+      console.log(toJson({ record: count, line, to, hash, calls }, 0));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push({ record: count, line, error: message });
+      console.log(toJson({ record: count, line, to, hash, error: message }, 0));
+    }
+  }
+
+  const summary = `Decoded ${count - failures.length} of ${count} record(s)`;
+  console.error(failures.length > 0 ? chalk.yellow(`\n${summary}, ${failures.length} failed:`) : chalk.green(`\n${summary}`));
+  for (const failure of failures) {
+    console.error(chalk.red(`  record ${failure.record} (line ${failure.line}): ${failure.error}`));
+  }
+
+  if (riskyRecords > 0) {
+    console.error(chalk.red(`${riskyRecords} record(s) have risk findings at or above ${options.failOn}`));
+  }
+
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  } else if (riskyRecords > 0) {
+    process.exitCode = 2;
+  }
+}
+
+/**
+ * Decode one batch record: a transaction hash, a batch, or a single call to `to`
+ */
+async function decodeRecord(decoder: MulticallDecoder, record: BatchRecord): Promise<DecodedCall[]> {
+  if (record.hash) {
+    return (await decoder.decodeTransaction(record.hash)).calls;
+  }
+
+  if (record.to && !decoder.isMulticall(record.data!, record.to)) {
+    return [await decoder.decodeCall(record.to, record.data!)];
+  }
+
+  return decoder.decodeMulticall(record.data!, record.to);
+}
+
+const decodeErrorCommand = program
+  .command('decode-error')
+  .description('Decode revert data: Error(string), Panic(uint256) or a custom error')
+  .argument('<data>', 'Revert data (hex string)');
+addDecoderOptions(decodeErrorCommand);
+decodeErrorCommand
+  .option('--target <address>', 'Contract that reverted, to look up its custom errors', parseAddress)
+  .action(async (data: string, options: any) => {
+    try {
+      if (!/^0x([0-9a-fA-F]{2})*$/.test(data)) {
+        throw new Error('Revert data must be a 0x-prefixed hex string');
+      }
+
+      const decoder = new MulticallDecoder(getDecoderOptions(options));
+      const decoded = await decoder.decodeError(data, options.target);
+
+      if (options.json) {
+        console.log(toJson(decoded));
+        return;
+      }
+
+      const kind = decoded.kind === 'unknown' ? chalk.red('unknown error') : decoded.signature || 'empty revert';
+      console.log(chalk.bold.green('\nError:'), kind, decoded.source ? chalk.gray(`(${decoded.source})`) : '');
+      if (decoded.selector) {
+        console.log(chalk.yellow('Selector:'), decoded.selector);
+      }
+      console.log(chalk.yellow('Reason:'), decoded.reason);
+      if (decoded.params && decoded.params.length > 0) {
+        console.log(chalk.yellow('Arguments:'));
+        formatDecodedParams(decoded.params, {
+          formatValue: (value) => formatArgument(value),
+          formatType: (type) => chalk.gray(type),
+        }).forEach((line) => console.log(`  ${line}`));
+      }
+      console.log();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('encode')
+  .description('Encode a YAML/JSON spec of calls into multicall calldata')
+  .argument('<spec>', 'Batch spec file (YAML or JSON), `-` to read it from stdin')
+  .option('-f, --format <format>', `Batch format, overrides the spec (${ENCODE_FORMATS.join(', ')})`, parseEncodeFormat)
+  .option('-j, --json', 'Output format, calldata and total value as JSON', false)
+  .action(async (specPath: string, options: any) => {
+    try {
+      const text = specPath === '-' ? await readStream(process.stdin) : fs.readFileSync(specPath, 'utf8');
+      const spec = parseBatchSpec(text);
+      if (options.format) {
+        spec.format = options.format;
+      }
+
+      const encoded = new MulticallEncoder().encode(spec);
+
+      if (options.json) {
+        console.log(toJson(encoded));
       } else {
-        // Regular contract
-        console.log(chalk.yellow('Contract:'), chalk.green(contractInfo.name));
+        console.log(encoded.data);
+        if (encoded.value > 0n) {
+          console.error(chalk.yellow(`Send with ${formatEther(encoded.value)} ETH (${encoded.value} wei)`));
+        }
       }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
     }
+  });
+
+program
+  .command('networks')
+  .description('List the built-in and configured networks')
+  .option('--networks <file>', 'Network definitions (defaults to ~/.config/multicall-decoder/networks.json)')
+  .option('-j, --json', 'Output as JSON', false)
+  .action((options: any) => {
+    try {
+      const networks = createNetworkRegistry(options).list();
 
-    console.log(chalk.yellow('Function:'), call.functionSignature);
+      if (options.json) {
+        console.log(toJson(networks));
+        return;
+      }
+
+      console.log();
+      for (const network of networks) {
+        const explorer = network.explorerApiUrl ? `${network.explorerKind ?? 'etherscan'} ${network.explorerApiUrl}` : 'no explorer';
+        console.log(
+          `${chalk.yellow(network.name.padEnd(12))} ${String(network.chainId).padEnd(10)} ${explorer}` +
+            (network.rpcUrl ? chalk.gray(` (rpc ${network.rpcUrl})`) : '')
+        );
+      }
+      console.log();
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
 
-    if (call.args && call.args.length > 0) {
-      console.log(chalk.yellow('Arguments:'));
-      call.args.forEach((arg: any, argIndex: number) => {
-        const argValue = formatArgument(arg);
-        console.log(`  ${chalk.gray(`[${argIndex}]`)} ${argValue}`);
-      });
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the persistent cache of ABIs, contract info, selectors and explanations');
+
+cacheCommand
+  .command('stats')
+  .description('Show cache statistics')
+  .action(() => {
+    const cache = new DiskCache();
+
+    console.log(chalk.bold.green(`\nCache directory: ${cache.directory}\n`));
+    for (const stats of cache.stats()) {
+      console.log(
+        `${chalk.yellow(stats.namespace.padEnd(12))} ${stats.entries} entries ` +
+          chalk.gray(`(${stats.negative} negative, ${stats.expired} expired, ${stats.bytes} bytes)`)
+      );
+    }
+    console.log();
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Clear the cache')
+  .argument('[namespace]', `Namespace to clear (${CACHE_NAMESPACES.join(', ')}), all when omitted`)
+  .action((namespace?: string) => {
+    if (namespace && !(CACHE_NAMESPACES as readonly string[]).includes(namespace)) {
+      console.error(chalk.red('Error:'), `Unknown cache namespace "${namespace}"`);
+      process.exit(1);
+    }
+
+    new DiskCache().clear(namespace as CacheNamespace | undefined);
+    console.log(chalk.green(`Cleared ${namespace ? `${namespace} cache` : 'cache'}`));
+  });
+
+cacheCommand
+  .command('export')
+  .description('Export live cache entries as JSON')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action((options: any) => {
+    const json = JSON.stringify(new DiskCache().export(), null, 2);
+
+    if (options.output) {
+      fs.writeFileSync(options.output, json);
+      console.log(chalk.green(`Exported cache to ${options.output}`));
     } else {
-      console.log(chalk.yellow('Arguments:'), chalk.gray('none'));
+      console.log(json);
     }
+  });
+
+function printTransaction(transaction: TransactionInfo) {
+  console.log(chalk.bold.green('\nTransaction:'), transaction.hash);
+  console.log(chalk.yellow('From:'), transaction.from);
+  console.log(chalk.yellow('To:'), transaction.to);
+  if (transaction.value > 0n) {
+    console.log(chalk.yellow('Value:'), `${formatEther(transaction.value)} ETH`);
+  }
+  if (transaction.blockNumber !== undefined) {
+    console.log(chalk.yellow('Block:'), transaction.blockNumber.toString());
+  }
+}
+
+function printSimulation(simulation: SimulationResult) {
+  const status = simulation.success ? chalk.green('success') : chalk.red(`reverted: ${simulation.revertReason}`);
+  console.log(chalk.bold.green('\nSimulation'), chalk.gray(`(block ${simulation.block})`));
+  console.log(chalk.yellow('Batch:'), status);
+  if (simulation.gasUsed !== undefined) {
+    console.log(chalk.yellow('Gas Estimate:'), simulation.gasUsed.toLocaleString('en-US'));
+  }
+}
 
-    console.log(chalk.yellow('Raw Data:'), chalk.gray(truncateString(call.rawCallData, 100)));
+function printDecodedCalls(calls: DecodedCall[], contractInfoMap?: Map<string, any>) {
+  console.log(chalk.bold.green(`\nDecoded ${calls.length} call(s):\n`));
+
+  const format = calls[0]?.format;
+  if (format) {
+    console.log(chalk.yellow('Batch Format:'), format);
+  }
+
+  const totalValue = calls.reduce((total, call) => total + (call.value ?? 0n), 0n);
+  if (totalValue > 0n) {
+    console.log(chalk.yellow('Total Value:'), `${formatEther(totalValue)} ETH`);
+  }
+
+  if (format || totalValue > 0n) {
+    console.log();
+  }
+
+  const delegateCalls = flattenCalls(calls).filter((call) => call.operation === 'delegatecall');
+  if (delegateCalls.length > 0) {
+    console.log(
+      chalk.bold.red(`⚠️  ${delegateCalls.length} DELEGATECALL(s) - the target code runs with the caller's storage and funds\n`)
+    );
+  }
+
+  const findings = flattenCalls(calls).flatMap((call) => call.risks || []);
+  if (findings.length > 0) {
+    const counts = [...RISK_SEVERITIES]
+      .reverse()
+      .map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([severity, count]) => `${count} ${severity}`);
+    console.log(chalk.bold.red(`⚠️  ${findings.length} risk finding(s): ${counts.join(', ')}`));
+    for (const finding of [...findings].sort((a, b) => compareSeverity(b.severity, a.severity))) {
+      console.log(`   ${colorSeverity(finding.severity)} ${chalk.gray(`Call ${finding.call}:`)} ${finding.message}`);
+    }
     console.log();
+  }
+
+  const ambiguousCalls = flattenCalls(calls).filter((call) => isAmbiguous(call.candidates));
+  if (ambiguousCalls.length > 0) {
+    console.log(
+      chalk.bold.yellow(`⚠️  ${ambiguousCalls.length} call(s) match several signatures - check the candidates before trusting them\n`)
+    );
+  }
+
+  calls.forEach((call, index) => {
+    printCall(call, `${index + 1}`, 0, contractInfoMap);
   });
 }
 
+function printCall(call: DecodedCall, label: string, depth: number, contractInfoMap?: Map<string, any>) {
+  const indent = '    '.repeat(depth);
+  const log = (...parts: any[]) => console.log(indent + parts.join(' '));
+  const contractInfo = contractInfoMap?.get(call.target.toLowerCase());
+
+  if (call.operation === 'delegatecall') {
+    log(chalk.bold.cyan(`Call ${label}:`), chalk.bold.white.bgRed(' DELEGATECALL '));
+  } else {
+    log(chalk.bold.cyan(`Call ${label}:`));
+  }
+  log(chalk.gray('─'.repeat(60)));
+  log(chalk.yellow('Target:'), call.targetLabel ? `${call.target} ${chalk.green(`(${call.targetLabel})`)}` : call.target);
+
+  if (call.operation) {
+    const operation = call.operation === 'delegatecall' ? chalk.bold.red('DELEGATECALL') : 'CALL';
+    log(chalk.yellow('Operation:'), operation);
+  }
+
+  if (call.value !== undefined && call.value > 0n) {
+    log(chalk.yellow('Value:'), `${formatEther(call.value)} ETH ${chalk.gray(`(${call.value.toString()} wei)`)}`);
+  }
+
+  if (call.allowFailure !== undefined) {
+    log(chalk.yellow('Allow Failure:'), call.allowFailure ? 'yes' : 'no');
+  }
+
+  if (call.requireSuccess !== undefined) {
+    log(chalk.yellow('Require Success:'), call.requireSuccess ? 'yes' : 'no');
+  }
+
+  if (call.deadline !== undefined) {
+    log(chalk.yellow('Deadline:'), `${call.deadline.toString()} ${chalk.gray(`(${formatTimestamp(call.deadline)})`)}`);
+  }
+
+  if (contractInfo && contractInfo.name !== 'Unknown Contract') {
+    if (contractInfo.isProxy && contractInfo.implementationName) {
+      // Show proxy with implementation
+      log(chalk.yellow('Contract:'), chalk.green(`${contractInfo.name} (Proxy)`));
+      log(chalk.yellow('Implementation:'), chalk.green(contractInfo.implementationName));
+    } else if (contractInfo.isProxy) {
+      // Proxy but no implementation name
+      log(chalk.yellow('Contract:'), chalk.green(`${contractInfo.name} (Proxy)`));
+    } else {
+      // Regular contract
+      log(chalk.yellow('Contract:'), chalk.green(contractInfo.name));
+    }
+  }
+
+  log(chalk.yellow('Function:'), call.functionSignature);
+
+  if (call.description) {
+    log(chalk.yellow('Description:'), chalk.white(call.description));
+  }
+
+  for (const finding of call.risks || []) {
+    log(chalk.yellow('Risk:'), `${colorSeverity(finding.severity)} ${finding.message} ${chalk.gray(`(${finding.rule})`)}`);
+  }
+
+  if (isAmbiguous(call.candidates)) {
+    log(chalk.bold.yellow('⚠️  Ambiguous selector:'), `${call.candidates!.length} signatures decode this call`);
+    call.candidates!.forEach((candidate) => {
+      const confidence = `${Math.round(candidate.confidence * 100)}%`.padStart(4);
+      log(`  ${chalk.gray(confidence)} ${candidate.signature} ${chalk.gray(`(${candidate.source ?? 'unknown'})`)}`);
+    });
+  }
+
+  if (call.params && call.params.length > 0) {
+    log(chalk.yellow('Arguments:'));
+    formatDecodedParams(call.params, {
+      formatValue: (value, param) => {
+        const text = param.formatted ? `${param.formatted} ${chalk.gray(`(${String(value)})`)}` : formatArgument(value);
+        return param.label ? `${text} ${chalk.green(`(${param.label})`)}` : text;
+      },
+      formatType: (type) => chalk.gray(type),
+      maxArrayItems: 10,
+    }).forEach((line) => log(`  ${line}`));
+  } else if (call.args && call.args.length > 0) {
+    log(chalk.yellow('Arguments:'));
+    call.args.forEach((arg: any, argIndex: number) => {
+      const argValue = formatArgument(arg);
+      log(`  ${chalk.gray(`[${argIndex}]`)} ${argValue}`);
+    });
+  } else {
+    log(chalk.yellow('Arguments:'), chalk.gray('none'));
+  }
+
+  if (call.path && call.path.length > 0) {
+    const route = call.path.map((hop) => `-(${hop.fee / 10000}%)-> ${hop.tokenOut}`).join(' ');
+    log(chalk.yellow('Path:'), `${call.path[0].tokenIn} ${route}`);
+  }
+
+  if (call.decodeError) {
+    log(chalk.yellow('Decode Error:'), chalk.red(call.decodeError));
+  }
+
+  log(chalk.yellow('Raw Data:'), chalk.gray(truncateString(call.rawCallData, 100)));
+
+  if (call.result) {
+    if (call.result.error) {
+      log(chalk.yellow('Result:'), chalk.gray(`not simulated: ${call.result.error}`));
+    } else if (call.result.success) {
+      log(chalk.yellow('Result:'), chalk.green('success'));
+      if (call.result.decoded) {
+        call.result.decoded.forEach((value: any, valueIndex: number) => {
+          log(`  ${chalk.gray(`[${valueIndex}]`)} ${formatArgument(value)}`);
+        });
+      } else {
+        log(`  ${chalk.gray(truncateString(call.result.returnData, 100))}`);
+      }
+    } else {
+      log(chalk.yellow('Result:'), chalk.red(`reverted: ${call.result.revertReason}`));
+    }
+    if (call.result.gasUsed !== undefined) {
+      log(chalk.yellow('Gas Used:'), call.result.gasUsed.toLocaleString('en-US'));
+    }
+  }
+
+  if (call.children && call.children.length > 0) {
+    log(chalk.yellow('Nested Calls:'), `${call.children.length}`);
+    console.log();
+    call.children.forEach((child: any, childIndex: number) => {
+      printCall(child, `${label}.${childIndex + 1}`, depth + 1, contractInfoMap);
+    });
+  } else {
+    console.log();
+  }
+}
+
+function colorSeverity(severity: RiskSeverity): string {
+  const label = severity.toUpperCase();
+  switch (severity) {
+    case 'critical':
+      return chalk.bold.white.bgRed(` ${label} `);
+    case 'high':
+      return chalk.bold.red(label);
+    case 'medium':
+      return chalk.yellow(label);
+    default:
+      return chalk.gray(label);
+  }
+}
+
+/**
+ * Flatten a tree of decoded calls (depth-first)
+ */
+function flattenCalls(calls: DecodedCall[]): DecodedCall[] {
+  return calls.flatMap((call) => [call, ...flattenCalls(call.children || [])]);
+}
+
+async function readStream(input: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of input) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Render a Unix timestamp as an ISO date when it is in a plausible range
+ */
+function formatTimestamp(timestamp: bigint): string {
+  const milliseconds = Number(timestamp) * 1000;
+  if (!Number.isSafeInteger(milliseconds) || milliseconds > 8.64e15) {
+    return 'no deadline';
+  }
+  return new Date(milliseconds).toISOString();
+}
+
+function parseAddress(value: string): string {
+  if (!isAddress(value, { strict: false })) {
+    throw new InvalidArgumentError('Not a valid address.');
+  }
+  return value;
+}
+
+function parseExplainerName(value: string): string {
+  if (!(EXPLAINER_BACKEND_NAMES as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${EXPLAINER_BACKEND_NAMES.join(', ')}.`);
+  }
+  return value;
+}
+
+function parseSeconds(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new InvalidArgumentError('Expected a positive number of seconds.');
+  }
+  return seconds;
+}
+
+function parseSeverity(value: string): RiskSeverity {
+  if (!(RISK_SEVERITIES as string[]).includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${RISK_SEVERITIES.join(', ')}.`);
+  }
+  return value as RiskSeverity;
+}
+
+function parseEncodeFormat(value: string): EncodeFormat {
+  if (!(ENCODE_FORMATS as string[]).includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${ENCODE_FORMATS.join(', ')}.`);
+  }
+  return value as EncodeFormat;
+}
+
+function collectAbiBinding(value: string, previous: { address: string; file: string }[]) {
+  const separator = value.indexOf('=');
+  const address = value.slice(0, separator);
+  const file = value.slice(separator + 1);
+  if (separator < 0 || !isAddress(address, { strict: false }) || !file) {
+    throw new InvalidArgumentError('Expected <address>=<file>.');
+  }
+  return [...previous, { address, file }];
+}
+
+function collectValue(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseProviderNames(value: string): string[] {
+  const names = value.split(',').map((name) => name.trim()).filter(Boolean);
+  const unknown = names.filter((name) => !(SIGNATURE_PROVIDER_NAMES as readonly string[]).includes(name));
+  if (names.length === 0 || unknown.length > 0) {
+    throw new InvalidArgumentError(`Expected a list of: ${SIGNATURE_PROVIDER_NAMES.join(', ')}.`);
+  }
+  return names;
+}
+
+function parseChainId(value: string): number {
+  const chainId = Number(value);
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new InvalidArgumentError('Chain id must be a positive integer.');
+  }
+  return chainId;
+}
+
+function parseDepth(value: string): number {
+  const depth = parseInt(value, 10);
+  if (isNaN(depth) || depth < 0) {
+    throw new InvalidArgumentError('Depth must be a non-negative integer.');
+  }
+  return depth;
+}
+
 function formatArgument(arg: any): string {
   if (typeof arg === 'bigint') {
     return `${arg.toString()} (${chalk.gray('0x' + arg.toString(16))})`;
@@ -0,0 +1,52 @@
+import type { Abi } from 'viem';
+import { BlockscoutClient } from './blockscout-client';
+import { EtherscanClient } from './etherscan-client';
+import { SourcifyClient } from './sourcify-client';
+import type { DiskCache } from './disk-cache';
+import type { NetworkConfig } from './networks';
+
+export interface ContractInfo {
+  name: string;
+  address: string;
+  isVerified: boolean;
+  isProxy: boolean;
+  implementation?: string;
+  implementationName?: string;
+}
+
+/**
+ * Where verified contracts come from: ABIs, names and proxy implementations
+ */
+export interface ContractSource {
+  // e.g. "etherscan", "blockscout", "sourcify"
+  readonly name: string;
+  // Resolves to null for unverified contracts
+  getContractAbi(address: string): Promise<Abi | null>;
+  getContractInfo(address: string): Promise<ContractInfo>;
+  // Implementation the explorer reports for a proxy, null for non-proxies and unknown contracts
+  getImplementationAddress(address: string): Promise<string | null>;
+}
+
+export interface ContractSourceOptions {
+  // Overrides the key read from the network's apiKeyEnv
+  apiKey?: string;
+  cache?: DiskCache;
+}
+
+/**
+ * Create the contract source of a network from its explorer kind and API URL
+ */
+export function createContractSource(network: NetworkConfig, options: ContractSourceOptions = {}): ContractSource {
+  const apiKey = options.apiKey || (network.apiKeyEnv ? process.env[network.apiKeyEnv] : undefined);
+
+  switch (network.explorerKind ?? 'etherscan') {
+    case 'etherscan':
+      return new EtherscanClient({ network, apiKey, cache: options.cache });
+    case 'blockscout':
+      return new BlockscoutClient({ network, apiKey, cache: options.cache });
+    case 'sourcify':
+      return new SourcifyClient({ network, cache: options.cache });
+    default:
+      throw new Error(`Unknown explorer kind "${network.explorerKind}" for ${network.name}`);
+  }
+}
@@ -0,0 +1,88 @@
+import type { AbiParameter } from 'viem';
+import type { DecodedParam } from './types';
+
+export interface ParamFormatOptions {
+  // Render a leaf value
+  formatValue: (value: unknown, param: DecodedParam) => string;
+  // Render the type annotation, e.g. to color it
+  formatType?: (type: string) => string;
+  // Arrays longer than this are cut off
+  maxArrayItems?: number;
+}
+
+/**
+ * Pair decoded values with their ABI parameters
+ * Tuples are expanded into their components and arrays into indexed elements.
+ * @param parameters ABI parameters (function inputs or outputs)
+ * @param values Decoded values, in parameter order
+ */
+export function toDecodedParams(parameters: readonly AbiParameter[], values: readonly unknown[]): DecodedParam[] {
+  return parameters.map((parameter, index) => toDecodedParam(parameter, parameter.name || '', values[index]));
+}
+
+function toDecodedParam(parameter: AbiParameter, name: string, value: unknown): DecodedParam {
+  const decoded: DecodedParam = { name, type: parameter.type };
+  if (parameter.internalType && parameter.internalType !== parameter.type) {
+    decoded.internalType = parameter.internalType;
+  }
+
+  const arrayMatch = parameter.type.match(/^(.*)\[\d*\]$/);
+  if (arrayMatch && Array.isArray(value)) {
+    const elementParameter = {
+      ...parameter,
+      type: arrayMatch[1],
+      internalType: parameter.internalType?.replace(/\[\d*\]$/, ''),
+    } as AbiParameter;
+    decoded.components = value.map((element, index) => toDecodedParam(elementParameter, `[${index}]`, element));
+    return decoded;
+  }
+
+  if (parameter.type === 'tuple' && 'components' in parameter && value !== null && typeof value === 'object') {
+    // viem returns named tuples as objects and unnamed ones as arrays
+    decoded.components = parameter.components.map((component, index) =>
+      toDecodedParam(
+        component,
+        component.name || '',
+        Array.isArray(value) ? value[index] : (value as Record<string, unknown>)[component.name ?? '']
+      )
+    );
+    return decoded;
+  }
+
+  decoded.value = value;
+  return decoded;
+}
+
+/**
+ * Render decoded params as indented `name (type): value` lines
+ */
+export function formatDecodedParams(params: DecodedParam[], options: ParamFormatOptions, depth: number = 0): string[] {
+  const maxArrayItems = options.maxArrayItems ?? Infinity;
+  const formatType = options.formatType || ((type: string) => type);
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+
+  params.forEach((param, index) => {
+    const label = param.name || `[${index}]`;
+    const type = formatType(`(${param.internalType?.replace(/^(struct|contract|enum) /, '') ?? param.type})`);
+
+    if (!param.components) {
+      lines.push(`${indent}${label} ${type}: ${options.formatValue(param.value, param)}`);
+      return;
+    }
+
+    if (param.components.length === 0) {
+      lines.push(`${indent}${label} ${type}: []`);
+      return;
+    }
+
+    lines.push(`${indent}${label} ${type}:`);
+    const shown = param.components.slice(0, maxArrayItems);
+    lines.push(...formatDecodedParams(shown, options, depth + 1));
+    if (param.components.length > shown.length) {
+      lines.push(`${indent}  ... ${param.components.length - shown.length} more`);
+    }
+  });
+
+  return lines;
+}
@@ -1,243 +1,776 @@
 import {
+  decodeAbiParameters,
   decodeFunctionData,
-  parseAbi,
-  parseAbiItem,
+  parseAbiParameters,
+  toFunctionSelector,
+  toFunctionSignature,
   type Abi,
+  type AbiFunction,
+  type AbiParameter,
   type Hex,
 } from 'viem';
 import { SignatureDecoder } from './signature-decoder';
-import { EtherscanClient } from './etherscan-client';
-import type { MulticallCall, DecodedCall, DecoderOptions } from './types';
+import { createContractSource, type ContractSource } from './contract-source';
+import { toNetworkConfig } from './networks';
+import {
+  AGGREGATE3_ABI,
+  AGGREGATE3_VALUE_ABI,
+  AGGREGATE_ABI,
+  BLOCK_AND_AGGREGATE_ABI,
+  SELF_MULTICALL_ABI,
+  TRY_AGGREGATE_ABI,
+  TRY_BLOCK_AND_AGGREGATE_ABI,
+} from './multicall-abi';
+import { MULTISEND_ABI, parseMultiSendTransactions } from './multisend';
+import { ErrorDecoder, type DecodedError } from './error-decoder';
+import { UNIVERSAL_ROUTER_ABI, UniversalRouterDecoder } from './universal-router';
+import { RpcClient, resolveRpcUrl, type TransactionInfo } from './rpc-client';
+import { AbiRegistry } from './abi-registry';
+import { ProxyResolver } from './proxy-resolver';
+import { rankSignatureCandidates } from './signature-ranking';
+import { toDecodedParams } from './decoded-params';
+import type { MulticallCall, DecodedCall, DecoderOptions, CallResult, MulticallFormat } from './types';
+
+// All batch functions we know how to decode without an external ABI
+const MULTICALL_ABI: Abi = [
+  ...AGGREGATE3_ABI,
+  ...AGGREGATE3_VALUE_ABI,
+  ...AGGREGATE_ABI,
+  ...TRY_AGGREGATE_ABI,
+  ...TRY_BLOCK_AND_AGGREGATE_ABI,
+  ...BLOCK_AND_AGGREGATE_ABI,
+  ...MULTISEND_ABI,
+  ...SELF_MULTICALL_ABI,
+  ...UNIVERSAL_ROUTER_ABI,
+];
+
+const DEFAULT_MAX_DEPTH = 3;
+
+interface ResolvedCall {
+  call: DecodedCall;
+  abiItem?: AbiFunction;
+  // Full contract ABI the function was resolved from, when there is one
+  abi?: Abi;
+}
 
 /**
  * Main decoder for multicall transaction data
  */
 export class MulticallDecoder {
   private signatureDecoder: SignatureDecoder;
-  private etherscanClient: EtherscanClient;
+  private contractSource: ContractSource;
+  private universalRouterDecoder: UniversalRouterDecoder;
+  private rpcClient?: RpcClient;
+  private abiRegistry: AbiRegistry;
+  private proxyResolver: ProxyResolver;
+  private errorDecoder: ErrorDecoder;
+  private contractAbis: Map<string, Promise<Abi | null>> = new Map();
+  private offline: boolean;
   private verbose: boolean;
+  private maxDepth: number;
 
   constructor(options: DecoderOptions = {}) {
-    this.signatureDecoder = new SignatureDecoder();
-    this.etherscanClient = new EtherscanClient({
+    this.signatureDecoder = new SignatureDecoder({
+      providers: options.signatureProviders,
+      offline: options.offline,
+      cache: options.cache,
+      verbose: options.verbose,
+    });
+    const network = toNetworkConfig(options.network);
+    this.contractSource = options.contractSource || createContractSource(network, {
       apiKey: options.etherscanApiKey,
-      network: options.network,
+      cache: options.cache,
     });
+    this.universalRouterDecoder = new UniversalRouterDecoder();
+    this.abiRegistry = options.abiRegistry || new AbiRegistry();
+
+    const rpcUrl = resolveRpcUrl(network, options.rpcUrl);
+    if (rpcUrl) {
+      this.rpcClient = new RpcClient({ rpcUrl });
+    }
+    this.offline = options.offline || false;
     this.verbose = options.verbose || false;
+    this.proxyResolver = new ProxyResolver({
+      rpcClient: this.rpcClient,
+      contractSource: this.offline ? undefined : this.contractSource,
+    });
+    this.errorDecoder = new ErrorDecoder({
+      abiRegistry: this.abiRegistry,
+      signatureDecoder: this.signatureDecoder,
+    });
+    this.maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  }
+
+  /**
+   * Register an ABI for decoding, optionally bound to a contract address
+   * Registered ABIs take priority over Etherscan; unbound ones are matched by selector.
+   */
+  registerAbi(abi: Abi, address?: string): void {
+    this.abiRegistry.register(abi, address);
   }
 
   /**
    * Parse multicall data into individual calls
-   * Supports common multicall formats (Multicall2, Multicall3)
+   * Supports common multicall formats (Multicall2, Multicall3, Safe MultiSend)
+   * and self-call `multicall(bytes[])` batches, which need the outer `to` address
+   * @param data Multicall calldata (hex string)
+   * @param to Address the batch is sent to (used as the target of self-calls)
    */
-  parseMulticallData(data: string): MulticallCall[] {
-    const calls: MulticallCall[] = [];
+  parseMulticallData(data: string, to?: string): MulticallCall[] {
+    const calls = this.tryParseMulticallData(data, to);
 
+    if (!calls) {
+      const error = !to && this.isSelfCallMulticall(data)
+        ? new Error('Unable to parse multicall data - self-call multicall(bytes[]) requires the contract address (--to)')
+        : new Error('Unable to parse multicall data - unknown format');
+      if (this.verbose) {
+        console.error('Error parsing multicall data:', error);
+      }
+      throw error;
+    }
+
+    return calls;
+  }
+
+  /**
+   * Parse multicall data, returning null instead of throwing on unknown formats
+   */
+  private tryParseMulticallData(data: string, to?: string): MulticallCall[] | null {
+    // Try to decode as Multicall3 aggregate3 format
     try {
-      // Try to decode as Multicall3 aggregate3 format
-      // aggregate3((address,bool,bytes)[])
-      const multicall3Abi = parseAbi([
-        'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) external payable returns ((bool success, bytes returnData)[] returnData)',
-      ]);
+      const decoded = decodeFunctionData({
+        abi: AGGREGATE3_ABI,
+        data: data as Hex,
+      });
 
-      try {
-        const decoded = decodeFunctionData({
-          abi: multicall3Abi,
-          data: data as Hex,
-        });
+      if (decoded.functionName === 'aggregate3' && decoded.args && Array.isArray(decoded.args[0])) {
+        return decoded.args[0].map((call) => ({
+          target: call.target,
+          callData: call.callData,
+          format: 'aggregate3',
+          allowFailure: call.allowFailure,
+        }));
+      }
+    } catch (e) {
+      // Not Multicall3 format, continue
+    }
 
-        if (decoded.functionName === 'aggregate3' && decoded.args && Array.isArray(decoded.args[0])) {
-          for (const call of decoded.args[0] as any[]) {
-            calls.push({
-              target: call.target,
-              callData: call.callData,
-            });
-          }
-          return calls;
-        }
-      } catch (e) {
-        // Not Multicall3 format, continue
+    // Try Multicall3 aggregate3Value format (per-call ETH value)
+    try {
+      const decoded = decodeFunctionData({
+        abi: AGGREGATE3_VALUE_ABI,
+        data: data as Hex,
+      });
+
+      if (decoded.functionName === 'aggregate3Value' && decoded.args && Array.isArray(decoded.args[0])) {
+        return decoded.args[0].map((call) => ({
+          target: call.target,
+          callData: call.callData,
+          format: 'aggregate3Value',
+          allowFailure: call.allowFailure,
+          value: call.value,
+        }));
       }
+    } catch (e) {
+      // Not aggregate3Value format
+    }
 
-      // Try to decode as Multicall2 aggregate format
-      // aggregate((address,bytes)[])
-      const multicall2Abi = parseAbi([
-        'function aggregate((address target, bytes callData)[] calls) external returns (uint256 blockNumber, bytes[] returnData)',
-      ]);
+    // Try to decode as Multicall2 aggregate format
+    try {
+      const decoded = decodeFunctionData({
+        abi: AGGREGATE_ABI,
+        data: data as Hex,
+      });
 
-      try {
-        const decoded = decodeFunctionData({
-          abi: multicall2Abi,
-          data: data as Hex,
-        });
+      if (decoded.functionName === 'aggregate' && decoded.args && Array.isArray(decoded.args[0])) {
+        return decoded.args[0].map((call) => ({
+          target: call.target,
+          callData: call.callData,
+          format: 'aggregate',
+        }));
+      }
+    } catch (e) {
+      // Not Multicall2 format
+    }
 
-        if (decoded.functionName === 'aggregate' && decoded.args && Array.isArray(decoded.args[0])) {
-          for (const call of decoded.args[0] as any[]) {
-            calls.push({
-              target: call.target,
-              callData: call.callData,
-            });
-          }
-          return calls;
-        }
-      } catch (e) {
-        // Not Multicall2 format
+    // Try tryAggregate format
+    try {
+      const decoded = decodeFunctionData({
+        abi: TRY_AGGREGATE_ABI,
+        data: data as Hex,
+      });
+
+      if (decoded.functionName === 'tryAggregate' && decoded.args && Array.isArray(decoded.args[1])) {
+        const requireSuccess = decoded.args[0];
+        return decoded.args[1].map((call) => ({
+          target: call.target,
+          callData: call.callData,
+          format: 'tryAggregate',
+          requireSuccess,
+        }));
       }
+    } catch (e) {
+      // Not tryAggregate format
+    }
 
-      // Try tryAggregate format
-      const tryAggregateAbi = parseAbi([
-        'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) external returns ((bool success, bytes returnData)[] returnData)',
-      ]);
+    // Try tryBlockAndAggregate format
+    try {
+      const decoded = decodeFunctionData({
+        abi: TRY_BLOCK_AND_AGGREGATE_ABI,
+        data: data as Hex,
+      });
 
-      try {
-        const decoded = decodeFunctionData({
-          abi: tryAggregateAbi,
-          data: data as Hex,
-        });
+      if (decoded.functionName === 'tryBlockAndAggregate' && decoded.args && Array.isArray(decoded.args[1])) {
+        const requireSuccess = decoded.args[0];
+        return decoded.args[1].map((call) => ({
+          target: call.target,
+          callData: call.callData,
+          format: 'tryBlockAndAggregate',
+          requireSuccess,
+        }));
+      }
+    } catch (e) {
+      // Not tryBlockAndAggregate format
+    }
 
-        if (decoded.functionName === 'tryAggregate' && decoded.args && Array.isArray(decoded.args[1])) {
-          for (const call of decoded.args[1] as any[]) {
-            calls.push({
-              target: call.target,
-              callData: call.callData,
-            });
-          }
-          return calls;
-        }
-      } catch (e) {
-        // Not tryAggregate format
+    // Try blockAndAggregate format (tryBlockAndAggregate with requireSuccess = true)
+    try {
+      const decoded = decodeFunctionData({
+        abi: BLOCK_AND_AGGREGATE_ABI,
+        data: data as Hex,
+      });
+
+      if (decoded.functionName === 'blockAndAggregate' && decoded.args && Array.isArray(decoded.args[0])) {
+        return decoded.args[0].map((call) => ({
+          target: call.target,
+          callData: call.callData,
+          format: 'blockAndAggregate',
+          requireSuccess: true,
+        }));
       }
+    } catch (e) {
+      // Not blockAndAggregate format
+    }
 
-      // Try tryBlockAndAggregate format
-      const tryBlockAbi = parseAbi([
-        'function tryBlockAndAggregate(bool requireSuccess, (address target, bytes callData)[] calls) external returns (uint256 blockNumber, bytes32 blockHash, (bool success, bytes returnData)[] returnData)',
-      ]);
+    // Try Safe multiSend format (packed transactions)
+    try {
+      const decoded = decodeFunctionData({
+        abi: MULTISEND_ABI,
+        data: data as Hex,
+      });
 
+      if (decoded.functionName === 'multiSend' && decoded.args) {
+        return parseMultiSendTransactions(decoded.args[0]).map((call) => ({
+          ...call,
+          format: 'multiSend',
+        }));
+      }
+    } catch (e) {
+      // Not multiSend format
+    }
+
+    // Try self-call multicall(bytes[]) / multicall(uint256,bytes[]) formats
+    if (to) {
       try {
         const decoded = decodeFunctionData({
-          abi: tryBlockAbi,
+          abi: SELF_MULTICALL_ABI,
           data: data as Hex,
         });
 
-        if (decoded.functionName === 'tryBlockAndAggregate' && decoded.args && Array.isArray(decoded.args[1])) {
-          for (const call of decoded.args[1] as any[]) {
-            calls.push({
-              target: call.target,
-              callData: call.callData,
-            });
-          }
-          return calls;
+        if (decoded.args.length === 2) {
+          const [deadline, callDatas] = decoded.args;
+          return callDatas.map((callData) => ({ target: to, callData, format: 'multicall', deadline }));
         }
+        return decoded.args[0].map((callData) => ({ target: to, callData, format: 'multicall' }));
       } catch (e) {
-        // Not tryBlockAndAggregate format
+        // Not a self-call multicall format
       }
+    }
 
-      throw new Error('Unable to parse multicall data - unknown format');
-    } catch (error) {
-      if (this.verbose) {
-        console.error('Error parsing multicall data:', error);
-      }
-      throw error;
+    return null;
+  }
+
+  /**
+   * Check whether data is a batch this decoder can split into calls
+   * @param data Call data (hex string)
+   * @param to Address the data is sent to
+   */
+  isMulticall(data: string, to?: string): boolean {
+    return this.universalRouterDecoder.isExecute(data) || this.tryParseMulticallData(data, to) !== null;
+  }
+
+  /**
+   * Check whether data is a self-call multicall(bytes[]) batch
+   */
+  private isSelfCallMulticall(data: string): boolean {
+    try {
+      decodeFunctionData({ abi: SELF_MULTICALL_ABI, data: data as Hex });
+      return true;
+    } catch (e) {
+      return false;
     }
   }
 
   /**
    * Decode a single call data
+   * Nested calldata found in `bytes`/`bytes[]` arguments is decoded into `children`
+   * until `maxDepth` is reached.
    */
-  async decodeCall(target: string, callData: string): Promise<DecodedCall> {
-    const selector = callData.slice(0, 10);
+  async decodeCall(target: string, callData: string, depth: number = 0): Promise<DecodedCall> {
+    const { call, abiItem } = await this.resolveCall(target, callData);
 
-    // First, try to get ABI from Etherscan
-    const abi = await this.etherscanClient.getContractAbi(target);
+    if (abiItem) {
+      call.params = toDecodedParams(abiItem.inputs, call.args);
+    }
 
-    if (abi) {
-      try {
-        const decoded = decodeFunctionData({
-          abi,
-          data: callData as Hex,
-        });
+    if (depth < this.maxDepth && call.functionName !== 'unknown') {
+      const children = await this.decodeChildren(call, abiItem?.inputs, depth + 1);
+      if (children.length > 0) {
+        call.children = children;
+      }
+    }
 
-        const functionFragment = abi.find(
-          (item: any) => item.type === 'function' && item.name === decoded.functionName
-        ) as any;
+    return call;
+  }
 
-        let signature = decoded.functionName;
-        if (functionFragment && functionFragment.inputs) {
-          const inputTypes = functionFragment.inputs.map((input: any) => input.type).join(',');
-          signature = `${decoded.functionName}(${inputTypes})`;
-        }
+  /**
+   * Resolve the function being called and decode its arguments
+   */
+  private async resolveCall(target: string, callData: string): Promise<ResolvedCall> {
+    const selector = callData.slice(0, 10).toLowerCase();
 
-        return {
+    // Plain ETH transfers (e.g. inside a Safe multiSend) carry no calldata
+    if (callData === '0x' || callData === '') {
+      return {
+        call: {
           target,
-          functionName: decoded.functionName,
-          functionSignature: signature,
-          args: decoded.args as any[],
+          functionName: 'receive',
+          functionSignature: 'receive()',
+          args: [],
           rawCallData: callData,
-        };
-      } catch (error) {
-        // Fall through to 4byte directory
+        },
+      };
+    }
+
+    // First, try an ABI registered locally for the target
+    const registeredAbi = this.abiRegistry.getAbi(target);
+
+    if (registeredAbi) {
+      const resolved = this.decodeWithAbi(registeredAbi, target, callData, selector);
+      if (resolved) {
+        return { ...resolved, abi: registeredAbi };
       }
     }
 
-    // Fallback to 4byte directory
+    // Then, the contract's own ABI merged with its implementation(s) when it is a proxy
+    const abi = await this.getContractAbi(target);
+
+    if (abi) {
+      const resolved = this.decodeWithAbi(abi, target, callData, selector);
+      if (resolved) {
+        return { ...resolved, abi };
+      }
+    }
+
+    // Then, try registered ABIs that aren't bound to this address
+    const registeredFunctions = this.abiRegistry.findFunctions(selector);
+    const registryResolved = this.decodeWithAbi(registeredFunctions, target, callData, selector);
+    if (registryResolved) {
+      return registryResolved;
+    }
+
+    // Then, try the batch functions we know about
+    const multicallResolved = this.decodeWithAbi(MULTICALL_ABI, target, callData, selector);
+    if (multicallResolved) {
+      return multicallResolved;
+    }
+
+    // Fallback to the signature providers (bundled database, 4byte, OpenChain)
     const signatures = await this.signatureDecoder.lookupSelector(selector);
 
     if (signatures.length === 0) {
       return {
+        call: {
+          target,
+          functionName: 'unknown',
+          functionSignature: selector,
+          args: [callData.slice(10)], // Return raw data without selector
+          rawCallData: callData,
+        },
+      };
+    }
+
+    // Rank every signature that decodes, a selector can be shared by lookalike functions
+    const targetAbi = registeredAbi || abi ? [...(registeredAbi || []), ...(abi || [])] : null;
+    const candidates = rankSignatureCandidates(callData, signatures, targetAbi);
+
+    if (candidates.length > 0) {
+      const [best] = candidates;
+      return {
+        call: {
+          target,
+          functionName: best.name,
+          functionSignature: best.signature,
+          args: best.args,
+          rawCallData: callData,
+          candidates: candidates.map(({ abiItem, ...candidate }) => candidate),
+        },
+        abiItem: best.abiItem,
+      };
+    }
+
+    // If all signatures fail, return the first one with raw data
+    return {
+      call: {
         target,
-        functionName: 'unknown',
-        functionSignature: selector,
-        args: [callData.slice(10)], // Return raw data without selector
+        functionName: signatures[0].name,
+        functionSignature: signatures[0].signature,
+        args: [callData.slice(10)],
         rawCallData: callData,
-      };
+      },
+    };
+  }
+
+  /**
+   * Get the ABI of a contract, resolving proxies
+   * Implementation ABIs (all facets for a Diamond) come first, followed by the proxy's own ABI.
+   */
+  private getContractAbi(address: string): Promise<Abi | null> {
+    const normalizedAddress = address.toLowerCase();
+
+    if (!this.contractAbis.has(normalizedAddress)) {
+      this.contractAbis.set(normalizedAddress, this.fetchContractAbi(normalizedAddress));
     }
 
-    // Try each signature until one works
-    for (const sig of signatures) {
-      try {
-        // Use parseAbiItem for dynamic signatures
-        const abiItem = parseAbiItem(`function ${sig.signature}`);
-        const decoded = decodeFunctionData({
-          abi: [abiItem],
-          data: callData as Hex,
-        });
+    return this.contractAbis.get(normalizedAddress)!;
+  }
+
+  private async fetchContractAbi(address: string): Promise<Abi | null> {
+    // The contract source is skipped offline, registered ABIs are still used for implementations
+    const abi = this.offline ? null : await this.contractSource.getContractAbi(address);
+    const proxy = await this.proxyResolver.resolve(address);
+
+    if (!proxy) {
+      return abi;
+    }
+
+    if (this.verbose) {
+      console.log(`${address} is a ${proxy.kind} proxy for ${proxy.implementations.join(', ')}`);
+    }
+
+    const implementationAbis = await Promise.all(
+      proxy.implementations.map(async (implementation) =>
+        this.abiRegistry.getAbi(implementation) ||
+        (this.offline ? null : await this.contractSource.getContractAbi(implementation))
+      )
+    );
 
-        return {
+    const merged: Abi = [...implementationAbis.flatMap((implementationAbi) => implementationAbi || []), ...(abi || [])];
+    return merged.length > 0 ? merged : null;
+  }
+
+  /**
+   * Decode call data against a full ABI, matching the function by selector
+   */
+  private decodeWithAbi(abi: Abi, target: string, callData: string, selector: string): ResolvedCall | null {
+    const functionFragment = abi.find(
+      (item): item is AbiFunction => item.type === 'function' && toFunctionSelector(item) === selector
+    );
+
+    if (!functionFragment) {
+      return null;
+    }
+
+    try {
+      const decoded = decodeFunctionData({
+        abi: [functionFragment],
+        data: callData as Hex,
+      });
+
+      return {
+        call: {
           target,
-          functionName: sig.name,
-          functionSignature: sig.signature,
+          functionName: decoded.functionName,
+          // Canonical signature, with structs expanded to their component types
+          functionSignature: toFunctionSignature(functionFragment),
           args: (decoded.args || []) as any[],
           rawCallData: callData,
-        };
+        },
+        abiItem: functionFragment,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Decode the calls nested inside a decoded call
+   * Known batch formats carry their own targets; other calldata found in `bytes`
+   * arguments is attributed to the closest address in its tuple, or to the outer target.
+   */
+  private async decodeChildren(
+    call: DecodedCall,
+    inputs: readonly AbiParameter[] | undefined,
+    depth: number
+  ): Promise<DecodedCall[]> {
+    if (this.universalRouterDecoder.isExecute(call.rawCallData)) {
+      try {
+        return this.universalRouterDecoder.decodeExecute(call.rawCallData, call.target);
       } catch (error) {
-        // Try next signature
-        continue;
+        return [];
       }
     }
 
-    // If all signatures fail, return the first one with raw data
-    return {
-      target,
-      functionName: signatures[0].name,
-      functionSignature: signatures[0].signature,
-      args: [callData.slice(10)],
-      rawCallData: callData,
-    };
+    const batchCalls = this.tryParseMulticallData(call.rawCallData, call.target);
+    if (batchCalls) {
+      const children: DecodedCall[] = [];
+      for (const batchCall of batchCalls) {
+        children.push(await this.decodeBatchCall(batchCall, depth));
+      }
+      return children;
+    }
+
+    if (!inputs) {
+      return [];
+    }
+
+    const nestedCalls: MulticallCall[] = [];
+    inputs.forEach((input, index) => {
+      collectNestedCalls(input, call.args[index], call.target, nestedCalls);
+    });
+
+    const children: DecodedCall[] = [];
+    for (const nestedCall of nestedCalls) {
+      const child = await this.decodeCall(nestedCall.target, nestedCall.callData, depth);
+      // Bytes that don't resolve to a known function are most likely not calldata
+      if (child.functionName !== 'unknown') {
+        children.push(child);
+      }
+    }
+
+    return children;
   }
 
   /**
    * Decode all calls in multicall data
+   * @param data Multicall calldata (hex string)
+   * @param to Address the batch is sent to (required for self-call multicalls)
+   */
+  async decodeMulticall(data: string, to?: string): Promise<DecodedCall[]> {
+    // Universal Router commands are not calldata, they get a dedicated decoder
+    if (this.universalRouterDecoder.isExecute(data)) {
+      return this.universalRouterDecoder.decodeExecute(data, to);
+    }
+
+    const calls = this.parseMulticallData(data, to);
+
+    // Calls decode concurrently; each unique target is resolved once and requests are paced by the contract source
+    return Promise.all(calls.map((call) => this.decodeBatchCall(call, 0)));
+  }
+
+  /**
+   * Fetch a transaction through the configured RPC endpoint and decode its input
+   * Batches are split into their calls; any other transaction decodes as a single call.
+   * @param hash Transaction hash
+   */
+  async decodeTransaction(hash: string): Promise<{ transaction: TransactionInfo; calls: DecodedCall[] }> {
+    if (!this.rpcClient) {
+      throw new Error('Decoding a transaction requires an RPC URL (--rpc-url or <NETWORK>_RPC_URL)');
+    }
+
+    const transaction = await this.rpcClient.getTransaction(hash);
+    if (!transaction) {
+      throw new Error(`Transaction ${hash} not found`);
+    }
+    if (!transaction.to) {
+      throw new Error(`Transaction ${hash} is a contract creation, nothing to decode`);
+    }
+
+    if (this.isMulticall(transaction.input, transaction.to)) {
+      return { transaction, calls: await this.decodeMulticall(transaction.input, transaction.to) };
+    }
+
+    const call = await this.decodeCall(transaction.to, transaction.input);
+    if (transaction.value > 0n) {
+      call.value = transaction.value;
+    }
+    return { transaction, calls: [call] };
+  }
+
+  /**
+   * Decode one call of a batch, keeping its per-call metadata
    */
-  async decodeMulticall(data: string): Promise<DecodedCall[]> {
-    const calls = this.parseMulticallData(data);
+  private async decodeBatchCall(call: MulticallCall, depth: number): Promise<DecodedCall> {
+    const decoded = await this.decodeCall(call.target, call.callData, depth);
+    const { target, callData, ...metadata } = call;
 
-    const decodedCalls: DecodedCall[] = [];
+    return { ...decoded, ...metadata };
+  }
 
-    for (const call of calls) {
-      const decoded = await this.decodeCall(call.target, call.callData);
-      decodedCalls.push(decoded);
+  /**
+   * Decode multicall calldata together with the return data of the batch
+   * Each subcall gets a `result` with its success flag and decoded return value
+   * (or revert reason when it failed).
+   * @param data Multicall calldata (hex string)
+   * @param returnData Raw return data of the multicall (hex string)
+   * @param to Address the batch is sent to (required for self-call multicalls)
+   */
+  async decodeMulticallResult(data: string, returnData: string, to?: string): Promise<DecodedCall[]> {
+    const decodedCalls = await this.decodeMulticall(data, to);
+    const format = decodedCalls[0]?.format;
+
+    if (decodedCalls.length === 0) {
+      return decodedCalls;
+    }
+
+    const results = this.splitMulticallResult(format, returnData);
+    if (results.length !== decodedCalls.length) {
+      throw new Error(
+        `Return data contains ${results.length} result(s) but the batch has ${decodedCalls.length} call(s)`
+      );
+    }
+
+    for (let i = 0; i < decodedCalls.length; i++) {
+      const call = decodedCalls[i];
+      call.result = await this.decodeCallResult(call.target, call.rawCallData, results[i].success, results[i].returnData);
     }
 
     return decodedCalls;
   }
+
+  /**
+   * Decode the return data of a single call
+   * Uses the same ABI or signature `decodeCall` resolves for the call data.
+   * @param target Target contract address
+   * @param callData Call data (hex string)
+   * @param success Whether the call succeeded
+   * @param returnData Returned bytes, or revert data when the call failed
+   */
+  async decodeCallResult(
+    target: string,
+    callData: string,
+    success: boolean,
+    returnData: string
+  ): Promise<CallResult> {
+    const { abiItem } = await this.resolveCall(target, callData);
+
+    if (!success) {
+      // The target's own ABI, even when the function was resolved through a signature database
+      const abi = await this.getContractAbi(target);
+      return {
+        success,
+        returnData,
+        revertReason: (await this.errorDecoder.decode(returnData, target, abi ?? undefined)).reason,
+      };
+    }
+
+    // Signatures from 4byte carry no outputs, so only ABIs can decode return values
+    if (!abiItem || (abiItem.outputs.length === 0 && returnData !== '0x')) {
+      return { success, returnData };
+    }
+
+    try {
+      const decoded = decodeAbiParameters(abiItem.outputs, returnData as Hex);
+      return { success, returnData, decoded: [...decoded] };
+    } catch (error) {
+      return { success, returnData };
+    }
+  }
+
+  /**
+   * Decode revert data, looking up custom errors in the target's ABI (proxies included),
+   * the local ABI registry and the signature databases
+   * @param data Revert data (hex string)
+   * @param target Contract that reverted
+   */
+  async decodeError(data: string, target?: string): Promise<DecodedError> {
+    const abi = target ? await this.getContractAbi(target) : null;
+    return this.errorDecoder.decode(data, undefined, abi ?? undefined);
+  }
+
+  /**
+   * Split the return data of a batch into per-call results
+   * @param format Batch format of the decoded calls
+   * @param returnData Raw return data of the batch
+   */
+  splitMulticallResult(
+    format: MulticallFormat | undefined,
+    returnData: string
+  ): { success: boolean; returnData: string }[] {
+    switch (format) {
+      case 'aggregate': {
+        const [, results] = decodeAbiParameters(parseAbiParameters('uint256, bytes[]'), returnData as Hex);
+        return results.map((result) => ({ success: true, returnData: result }));
+      }
+      case 'aggregate3':
+      case 'aggregate3Value':
+      case 'tryAggregate': {
+        const [results] = decodeAbiParameters(parseAbiParameters('(bool, bytes)[]'), returnData as Hex);
+        return results.map(([success, result]) => ({ success, returnData: result }));
+      }
+      case 'tryBlockAndAggregate':
+      case 'blockAndAggregate': {
+        const [, , results] = decodeAbiParameters(
+          parseAbiParameters('uint256, bytes32, (bool, bytes)[]'),
+          returnData as Hex
+        );
+        return results.map(([success, result]) => ({ success, returnData: result }));
+      }
+      case 'multicall': {
+        const [results] = decodeAbiParameters(parseAbiParameters('bytes[]'), returnData as Hex);
+        return results.map((result) => ({ success: true, returnData: result }));
+      }
+      default:
+        throw new Error(`Batch format ${format ?? 'unknown'} does not return per-call results`);
+    }
+  }
+}
+
+/**
+ * Check whether a value looks like ABI-encoded calldata (selector + 32-byte words)
+ */
+function isCallDataShaped(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+    return false;
+  }
+  const byteLength = (value.length - 2) / 2;
+  return byteLength >= 4 && (byteLength - 4) % 32 === 0;
+}
+
+/**
+ * Walk a decoded argument and collect every calldata-shaped `bytes` value
+ */
+function collectNestedCalls(param: AbiParameter, value: unknown, target: string, out: MulticallCall[]): void {
+  if (param.type === 'bytes') {
+    if (isCallDataShaped(value)) {
+      out.push({ target, callData: value });
+    }
+    return;
+  }
+
+  const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+  if (arrayMatch) {
+    if (Array.isArray(value)) {
+      const elementParam = { ...param, type: arrayMatch[1] } as AbiParameter;
+      value.forEach((element) => collectNestedCalls(elementParam, element, target, out));
+    }
+    return;
+  }
+
+  if (param.type === 'tuple' && 'components' in param && value !== null && typeof value === 'object') {
+    const components = param.components;
+    const fieldValue = (index: number) =>
+      Array.isArray(value) ? value[index] : (value as Record<string, unknown>)[components[index].name ?? ''];
+
+    // Prefer an explicit target/to field, then any address in the tuple
+    const addressIndex = [
+      components.findIndex((c) => c.type === 'address' && (c.name === 'target' || c.name === 'to')),
+      components.findIndex((c) => c.type === 'address'),
+    ].find((index) => index >= 0);
+    const tupleTarget = addressIndex !== undefined ? (fieldValue(addressIndex) as string) : target;
+
+    components.forEach((component, index) => {
+      collectNestedCalls(component, fieldValue(index), tupleTarget, out);
+    });
+  }
 }
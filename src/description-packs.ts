@@ -0,0 +1,141 @@
+/**
+ * A set of sentence templates, keyed by function signature
+ *
+ * Placeholders reference arguments by position or name, with `.` for struct fields and array
+ * elements and `first` / `last` for the ends of an array or a Uniswap V3 path:
+ * - `{0}`, `{params.recipient}`: the value, or its address book label
+ * - `{1@0}`: an amount of the token at argument 0 (`$target` for the called contract, `$eth` for ETH)
+ * - `{1?Approve:Revoke}`: the first text when the value is true or non-zero
+ * - `{$target}`: the called contract, `{$value}`: the ETH sent with the call
+ */
+export interface DescriptionPack {
+  name: string;
+  templates: Record<string, string>;
+}
+
+/**
+ * Built-in packs, tried in order
+ * ERC721 `approve` and `transferFrom` share their signatures with ERC20 and are described as token amounts.
+ */
+export const BUILTIN_DESCRIPTION_PACKS: readonly DescriptionPack[] = [
+  {
+    name: 'erc20',
+    templates: {
+      'transfer(address,uint256)': 'Transfer {1@$target} to {0}',
+      'transferFrom(address,address,uint256)': 'Transfer {2@$target} from {0} to {1}',
+      'approve(address,uint256)': 'Approve {1@$target} to {0}',
+      'increaseAllowance(address,uint256)': 'Increase the allowance of {0} by {1@$target}',
+      'decreaseAllowance(address,uint256)': 'Decrease the allowance of {0} by {1@$target}',
+      'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)': 'Permit {1} to spend {2@$target} of {0}',
+    },
+  },
+  {
+    name: 'erc721',
+    templates: {
+      'safeTransferFrom(address,address,uint256)': 'Transfer {$target} #{2} from {0} to {1}',
+      'safeTransferFrom(address,address,uint256,bytes)': 'Transfer {$target} #{2} from {0} to {1}',
+      'setApprovalForAll(address,bool)': '{1?Approve:Revoke} {0} as operator of every {$target} token',
+    },
+  },
+  {
+    name: 'erc1155',
+    templates: {
+      'safeTransferFrom(address,address,uint256,uint256,bytes)': 'Transfer {3} of {$target} #{2} from {0} to {1}',
+      'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)':
+        'Transfer {3} of {$target} #{2} from {0} to {1}',
+    },
+  },
+  {
+    name: 'weth',
+    templates: {
+      'deposit()': 'Wrap {$value} into {$target}',
+      'withdraw(uint256)': 'Unwrap {0@$target}',
+    },
+  },
+  {
+    name: 'uniswap-v2',
+    templates: {
+      'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)':
+        'Swap {0@2.first} for at least {1@2.last}, sent to {3}',
+      'swapTokensForExactTokens(uint256,uint256,address[],address,uint256)':
+        'Swap at most {1@2.first} for {0@2.last}, sent to {3}',
+      'swapExactETHForTokens(uint256,address[],address,uint256)': 'Swap {$value} for at least {0@1.last}, sent to {2}',
+      'swapETHForExactTokens(uint256,address[],address,uint256)': 'Swap at most {$value} for {0@1.last}, sent to {2}',
+      'swapExactTokensForETH(uint256,uint256,address[],address,uint256)':
+        'Swap {0@2.first} for at least {1@2.last}, sent to {3}',
+      'swapTokensForExactETH(uint256,uint256,address[],address,uint256)':
+        'Swap at most {1@2.first} for {0@2.last}, sent to {3}',
+      'addLiquidity(address,address,uint256,uint256,uint256,uint256,address,uint256)':
+        'Add liquidity of up to {2@0} and {3@1}',
+      'addLiquidityETH(address,uint256,uint256,uint256,address,uint256)': 'Add liquidity of up to {1@0} and {$value}',
+      'removeLiquidity(address,address,uint256,uint256,uint256,address,uint256)':
+        'Remove liquidity for at least {3@0} and {4@1}, sent to {5}',
+      'removeLiquidityETH(address,uint256,uint256,uint256,address,uint256)':
+        'Remove liquidity for at least {2@0} and {3@$eth}, sent to {4}',
+      // Universal Router commands
+      'V2_SWAP_EXACT_IN(address,uint256,uint256,address[],bool)': 'Swap {1@3.first} for at least {2@3.last}',
+      'V2_SWAP_EXACT_OUT(address,uint256,uint256,address[],bool)': 'Swap at most {2@3.first} for {1@3.last}',
+    },
+  },
+  {
+    name: 'uniswap-v3',
+    templates: {
+      // SwapRouter
+      'exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))':
+        'Swap {0.5@0.0} for at least {0.6@0.1}, sent to {0.3}',
+      'exactOutputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))':
+        'Swap at most {0.6@0.0} for {0.5@0.1}, sent to {0.3}',
+      'exactInput((bytes,address,uint256,uint256,uint256))': 'Swap {0.3@0.0.first} for at least {0.4@0.0.last}, sent to {0.1}',
+      // Exact-output paths start with the output token
+      'exactOutput((bytes,address,uint256,uint256,uint256))': 'Swap at most {0.4@0.0.last} for {0.3@0.0.first}, sent to {0.1}',
+      // SwapRouter02 (no deadline in the params)
+      'exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))':
+        'Swap {0.4@0.0} for at least {0.5@0.1}, sent to {0.3}',
+      'exactOutputSingle((address,address,uint24,address,uint256,uint256,uint160))':
+        'Swap at most {0.5@0.0} for {0.4@0.1}, sent to {0.3}',
+      'exactInput((bytes,address,uint256,uint256))': 'Swap {0.2@0.0.first} for at least {0.3@0.0.last}, sent to {0.1}',
+      'exactOutput((bytes,address,uint256,uint256))': 'Swap at most {0.3@0.0.last} for {0.2@0.0.first}, sent to {0.1}',
+      // NonfungiblePositionManager
+      'increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))': 'Add liquidity to position #{0.0}',
+      'decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))': 'Remove {0.1} liquidity from position #{0.0}',
+      'collect((uint256,address,uint128,uint128))': 'Collect the fees of position #{0.0}, sent to {0.1}',
+      // Universal Router commands
+      'V3_SWAP_EXACT_IN(address,uint256,uint256,bytes,bool)': 'Swap {1@3.first} for at least {2@3.last}',
+      'V3_SWAP_EXACT_OUT(address,uint256,uint256,bytes,bool)': 'Swap at most {2@3.last} for {1@3.first}',
+    },
+  },
+  {
+    name: 'aave-v3',
+    templates: {
+      'supply(address,uint256,address,uint16)': 'Supply {1@0} to {$target} on behalf of {2}',
+      'withdraw(address,uint256,address)': 'Withdraw {1@0} from {$target} to {2}',
+      'borrow(address,uint256,uint256,uint16,address)': 'Borrow {1@0} from {$target} on behalf of {4}',
+      'repay(address,uint256,uint256,address)': 'Repay {1@0} to {$target} on behalf of {3}',
+      'setUserUseReserveAsCollateral(address,bool)': '{1?Enable:Disable} {0} as collateral on {$target}',
+    },
+  },
+  {
+    name: 'compound',
+    templates: {
+      // Compound V3 (Comet)
+      'supply(address,uint256)': 'Supply {1@0} to {$target}',
+      'withdraw(address,uint256)': 'Withdraw {1@0} from {$target}',
+      // Compound V2 cTokens, amounts are in the underlying token
+      // (`mint`, `redeem`, `borrow` and `repayBorrow` taking a uint256 are too common to be told apart from other contracts)
+      'redeemUnderlying(uint256)': 'Redeem {0} base units of the underlying from {$target}',
+    },
+  },
+  {
+    name: 'safe',
+    templates: {
+      'addOwnerWithThreshold(address,uint256)': 'Add {0} as an owner of {$target} and set the threshold to {1}',
+      'removeOwner(address,address,uint256)': 'Remove owner {1} from {$target} and set the threshold to {2}',
+      'swapOwner(address,address,address)': 'Replace owner {1} of {$target} with {2}',
+      'changeThreshold(uint256)': 'Change the threshold of {$target} to {0}',
+      'enableModule(address)': 'Enable module {0} on {$target}',
+      'disableModule(address,address)': 'Disable module {1} on {$target}',
+      'setGuard(address)': 'Set the guard of {$target} to {0}',
+      'setFallbackHandler(address)': 'Set the fallback handler of {$target} to {0}',
+    },
+  },
+];
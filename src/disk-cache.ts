@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export type CacheNamespace = 'abi' | 'contract' | 'selector' | 'explanation';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface DiskCacheOptions {
+  // Defaults to $XDG_CACHE_HOME/multicall-decoder or ~/.cache/multicall-decoder
+  directory?: string;
+  // Time to live of regular entries in milliseconds
+  ttl?: number;
+  // Time to live of negative results (e.g. "contract not verified") in milliseconds
+  negativeTtl?: number;
+}
+
+export interface CacheStats {
+  namespace: string;
+  entries: number;
+  expired: number;
+  negative: number;
+  bytes: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_TTL = 7 * DAY;
+const DEFAULT_NEGATIVE_TTL = 60 * 60 * 1000;
+// Writes are batched: namespaces changed within this delay are written once
+const FLUSH_DELAY = 1000;
+
+export const CACHE_NAMESPACES: readonly CacheNamespace[] = ['abi', 'contract', 'selector', 'explanation'];
+
+/**
+ * Persistent JSON cache with one file per namespace
+ * Negative results are stored as `null` with their own (shorter) TTL. Changes are written
+ * shortly after they are made and when the process exits, each file replaced atomically.
+ */
+export class DiskCache {
+  readonly directory: string;
+  private ttl: number;
+  private negativeTtl: number;
+  private namespaces: Map<string, Record<string, CacheEntry>> = new Map();
+  private dirty: Set<string> = new Set();
+  private flushTimer?: NodeJS.Timeout;
+  private readonly flushOnExit = () => this.flush();
+
+  constructor(options: DiskCacheOptions = {}) {
+    this.directory = options.directory || defaultCacheDirectory();
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.negativeTtl = options.negativeTtl ?? DEFAULT_NEGATIVE_TTL;
+  }
+
+  /**
+   * Get a cached value
+   * Returns undefined on a miss, null for a cached negative result.
+   */
+  get<T>(namespace: CacheNamespace, key: string): T | null | undefined {
+    const entries = this.load(namespace);
+    const entry = entries[key];
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      delete entries[key];
+      return undefined;
+    }
+
+    return entry.value as T | null;
+  }
+
+  /**
+   * Store a value
+   * @param ttl Overrides the default time to live (milliseconds)
+   */
+  set<T>(namespace: CacheNamespace, key: string, value: T, ttl: number = this.ttl): void {
+    const entries = this.load(namespace);
+    const now = Date.now();
+    entries[key] = { value, createdAt: now, expiresAt: now + ttl };
+    this.markDirty(namespace);
+  }
+
+  /**
+   * Store a negative result (e.g. contract not verified, selector unknown)
+   */
+  setNegative(namespace: CacheNamespace, key: string): void {
+    this.set(namespace, key, null, this.negativeTtl);
+  }
+
+  /**
+   * Write every pending change to disk
+   */
+  flush(): void {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    process.off('exit', this.flushOnExit);
+
+    for (const namespace of this.dirty) {
+      this.save(namespace);
+    }
+    this.dirty.clear();
+  }
+
+  /**
+   * Entry counts and sizes per namespace
+   */
+  stats(): CacheStats[] {
+    this.flush();
+    const now = Date.now();
+
+    return CACHE_NAMESPACES.map((namespace) => {
+      const entries = Object.values(this.load(namespace));
+      const file = this.filePath(namespace);
+      return {
+        namespace,
+        entries: entries.length,
+        expired: entries.filter((entry) => entry.expiresAt <= now).length,
+        negative: entries.filter((entry) => entry.value === null).length,
+        bytes: fs.existsSync(file) ? fs.statSync(file).size : 0,
+      };
+    });
+  }
+
+  /**
+   * Remove all entries of a namespace, or of every namespace
+   */
+  clear(namespace?: CacheNamespace): void {
+    for (const name of namespace ? [namespace] : CACHE_NAMESPACES) {
+      this.namespaces.set(name, {});
+      this.dirty.delete(name);
+      const file = this.filePath(name);
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+
+  /**
+   * Export all live entries, keyed by namespace
+   */
+  export(): Record<string, Record<string, CacheEntry>> {
+    const now = Date.now();
+    const result: Record<string, Record<string, CacheEntry>> = {};
+
+    for (const namespace of CACHE_NAMESPACES) {
+      result[namespace] = Object.fromEntries(
+        Object.entries(this.load(namespace)).filter(([, entry]) => entry.expiresAt > now)
+      );
+    }
+
+    return result;
+  }
+
+  private filePath(namespace: string): string {
+    return path.join(this.directory, `${namespace}.json`);
+  }
+
+  private load(namespace: string): Record<string, CacheEntry> {
+    const loaded = this.namespaces.get(namespace);
+    if (loaded) {
+      return loaded;
+    }
+
+    const file = this.filePath(namespace);
+    let entries: Record<string, CacheEntry> = {};
+    if (fs.existsSync(file)) {
+      try {
+        entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+      } catch (error: any) {
+        // Replaced by the next write
+        console.error(`Ignoring unreadable cache ${file}: ${error.message}`);
+      }
+    }
+
+    this.namespaces.set(namespace, entries);
+    return entries;
+  }
+
+  private markDirty(namespace: string): void {
+    this.dirty.add(namespace);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY);
+      // Don't keep the process alive for the cache, the exit handler writes what's left
+      this.flushTimer.unref();
+      process.on('exit', this.flushOnExit);
+    }
+  }
+
+  /**
+   * Write a namespace to a temporary file and rename it over the cache file,
+   * so readers (and other processes) never see a partial write
+   */
+  private save(namespace: string): void {
+    const file = this.filePath(namespace);
+    const temporary = `${file}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.writeFileSync(temporary, JSON.stringify(this.namespaces.get(namespace)));
+      fs.renameSync(temporary, file);
+    } catch (error: any) {
+      // The cache is an optimization, never fail a decode because of it
+      console.error(`Failed to write cache ${file}: ${error.message}`);
+      fs.rmSync(temporary, { force: true });
+    }
+  }
+}
+
+function defaultCacheDirectory(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'multicall-decoder');
+}
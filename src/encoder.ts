@@ -0,0 +1,353 @@
+import {
+  encodeFunctionData,
+  getAddress,
+  isAddress,
+  isHex,
+  parseAbiItem,
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+} from 'viem';
+import YAML from 'yaml';
+import {
+  AGGREGATE3_ABI,
+  AGGREGATE3_VALUE_ABI,
+  AGGREGATE_ABI,
+  TRY_AGGREGATE_ABI,
+} from './multicall-abi';
+import { MULTISEND_ABI, encodeMultiSendTransactions } from './multisend';
+import type { CallOperation, MulticallCall } from './types';
+
+export type EncodeFormat = 'aggregate' | 'aggregate3' | 'aggregate3Value' | 'tryAggregate' | 'multiSend';
+
+export const ENCODE_FORMATS: EncodeFormat[] = ['aggregate', 'aggregate3', 'aggregate3Value', 'tryAggregate', 'multiSend'];
+
+/**
+ * One call of a batch spec: a function signature with arguments, or raw calldata
+ */
+export interface CallSpec {
+  target: string;
+  // e.g. "transfer(address,uint256)" or "function transfer(address to, uint256 amount)"
+  function?: string;
+  args?: unknown[];
+  // Raw calldata, instead of function + args
+  data?: string;
+  // aggregate3 / aggregate3Value only
+  allowFailure?: boolean;
+  // Wei, aggregate3Value / multiSend only
+  value?: bigint | string | number;
+  // multiSend only
+  operation?: CallOperation;
+}
+
+export interface BatchSpec {
+  // Defaults to aggregate3
+  format?: EncodeFormat;
+  // tryAggregate only, defaults to true
+  requireSuccess?: boolean;
+  calls: CallSpec[];
+}
+
+export interface EncodedBatch {
+  format: EncodeFormat;
+  data: Hex;
+  // ETH the batch must be sent with (sum of the call values)
+  value: bigint;
+}
+
+/**
+ * Parse a batch spec from YAML or JSON
+ * Every scalar is read as a string so addresses and large integers keep their exact value;
+ * arguments are converted to their ABI types when the calls are encoded.
+ */
+export function parseBatchSpec(text: string): BatchSpec {
+  let spec: any;
+  try {
+    spec = YAML.parse(text, { schema: 'failsafe' });
+  } catch (error: any) {
+    throw new Error(`Invalid batch spec: ${error.message}`);
+  }
+
+  // A bare list of calls is accepted as well
+  if (Array.isArray(spec)) {
+    spec = { calls: spec };
+  }
+  if (!spec || typeof spec !== 'object' || !Array.isArray(spec.calls)) {
+    throw new Error('Invalid batch spec: expected a `calls` list');
+  }
+
+  if (spec.format !== undefined && !ENCODE_FORMATS.includes(spec.format)) {
+    throw new Error(`Invalid batch spec: unknown format "${spec.format}" (expected ${ENCODE_FORMATS.join(', ')})`);
+  }
+
+  return {
+    format: spec.format,
+    requireSuccess: spec.requireSuccess === undefined ? undefined : parseBoolean(spec.requireSuccess, 'requireSuccess'),
+    calls: spec.calls.map((call: any, index: number) => {
+      if (!call || typeof call !== 'object' || Array.isArray(call)) {
+        throw new Error(`Invalid batch spec: call ${index} must be an object`);
+      }
+      return {
+        target: call.target,
+        function: call.function,
+        args: call.args,
+        data: call.data,
+        allowFailure: call.allowFailure === undefined ? undefined : parseBoolean(call.allowFailure, `calls[${index}].allowFailure`),
+        value: call.value,
+        operation: call.operation,
+      };
+    }),
+  };
+}
+
+/**
+ * Encodes calls into multicall batches (Multicall2/3 aggregate variants, Safe multiSend)
+ */
+export class MulticallEncoder {
+  /**
+   * Encode a batch spec
+   */
+  encode(spec: BatchSpec): EncodedBatch {
+    const format = spec.format || 'aggregate3';
+    const calls = spec.calls.map((call, index) => {
+      try {
+        return this.encodeCall(call);
+      } catch (error: any) {
+        throw new Error(`Call ${index}: ${error.message}`);
+      }
+    });
+
+    return this.encodeCalls(format, calls, { requireSuccess: spec.requireSuccess });
+  }
+
+  /**
+   * Resolve a call spec to its target and calldata
+   */
+  encodeCall(spec: CallSpec): MulticallCall {
+    if (typeof spec.target !== 'string' || !isAddress(spec.target, { strict: false })) {
+      throw new Error(`Invalid target address: ${spec.target}`);
+    }
+    if (spec.operation !== undefined && spec.operation !== 'call' && spec.operation !== 'delegatecall') {
+      throw new Error(`Invalid operation "${spec.operation}" (expected call or delegatecall)`);
+    }
+
+    const call: MulticallCall = {
+      target: getAddress(spec.target),
+      callData: this.encodeCallData(spec),
+      operation: spec.operation,
+      allowFailure: spec.allowFailure,
+    };
+
+    if (spec.value !== undefined) {
+      call.value = parseValue(spec.value, 'value');
+    }
+
+    return call;
+  }
+
+  /**
+   * Encode resolved calls in a batch format
+   * Per-call options the format can't carry (e.g. a value in aggregate3) are rejected
+   * rather than dropped.
+   */
+  encodeCalls(format: EncodeFormat, calls: MulticallCall[], options: { requireSuccess?: boolean } = {}): EncodedBatch {
+    this.checkOptions(format, calls, options);
+
+    const value = calls.reduce((total, call) => total + (call.value ?? 0n), 0n);
+    const target = (call: MulticallCall) => getAddress(call.target);
+    const callData = (call: MulticallCall) => call.callData as Hex;
+
+    let data: Hex;
+    switch (format) {
+      case 'aggregate':
+        data = encodeFunctionData({
+          abi: AGGREGATE_ABI,
+          functionName: 'aggregate',
+          args: [calls.map((call) => ({ target: target(call), callData: callData(call) }))],
+        });
+        break;
+      case 'aggregate3':
+        data = encodeFunctionData({
+          abi: AGGREGATE3_ABI,
+          functionName: 'aggregate3',
+          args: [
+            calls.map((call) => ({
+              target: target(call),
+              allowFailure: call.allowFailure ?? false,
+              callData: callData(call),
+            })),
+          ],
+        });
+        break;
+      case 'aggregate3Value':
+        data = encodeFunctionData({
+          abi: AGGREGATE3_VALUE_ABI,
+          functionName: 'aggregate3Value',
+          args: [
+            calls.map((call) => ({
+              target: target(call),
+              allowFailure: call.allowFailure ?? false,
+              value: call.value ?? 0n,
+              callData: callData(call),
+            })),
+          ],
+        });
+        break;
+      case 'tryAggregate':
+        data = encodeFunctionData({
+          abi: TRY_AGGREGATE_ABI,
+          functionName: 'tryAggregate',
+          args: [
+            options.requireSuccess ?? true,
+            calls.map((call) => ({ target: target(call), callData: callData(call) })),
+          ],
+        });
+        break;
+      case 'multiSend':
+        data = encodeFunctionData({
+          abi: MULTISEND_ABI,
+          functionName: 'multiSend',
+          args: [encodeMultiSendTransactions(calls.map((call) => ({ ...call, target: target(call) })))],
+        });
+        break;
+      default:
+        throw new Error(`Unknown format: ${format}`);
+    }
+
+    return { format, data, value };
+  }
+
+  private encodeCallData(spec: CallSpec): Hex {
+    if (spec.data !== undefined) {
+      if (spec.function !== undefined || spec.args !== undefined) {
+        throw new Error('Provide either data or function and args, not both');
+      }
+      if (typeof spec.data !== 'string' || !isHex(spec.data)) {
+        throw new Error('Invalid data: expected a 0x-prefixed hex string');
+      }
+      return spec.data;
+    }
+
+    if (typeof spec.function !== 'string') {
+      throw new Error('Provide a function signature or raw data');
+    }
+
+    const abiItem = parseFunction(spec.function);
+    const args = spec.args ?? [];
+    if (!Array.isArray(args) || args.length !== abiItem.inputs.length) {
+      throw new Error(`${spec.function} expects ${abiItem.inputs.length} argument(s)`);
+    }
+
+    return encodeFunctionData({
+      abi: [abiItem],
+      functionName: abiItem.name,
+      args: abiItem.inputs.map((input, index) => coerceArg(input, args[index], input.name || `[${index}]`)),
+    });
+  }
+
+  private checkOptions(format: EncodeFormat, calls: MulticallCall[], options: { requireSuccess?: boolean }): void {
+    if (options.requireSuccess !== undefined && format !== 'tryAggregate') {
+      throw new Error(`requireSuccess is only supported by tryAggregate, not ${format}`);
+    }
+
+    calls.forEach((call, index) => {
+      if (call.allowFailure !== undefined && format !== 'aggregate3' && format !== 'aggregate3Value') {
+        throw new Error(`Call ${index}: allowFailure is only supported by aggregate3 and aggregate3Value, not ${format}`);
+      }
+      if (call.value !== undefined && call.value !== 0n && format !== 'aggregate3Value' && format !== 'multiSend') {
+        throw new Error(`Call ${index}: value is only supported by aggregate3Value and multiSend, not ${format}`);
+      }
+      if (call.operation === 'delegatecall' && format !== 'multiSend') {
+        throw new Error(`Call ${index}: delegatecall is only supported by multiSend, not ${format}`);
+      }
+    });
+  }
+}
+
+/**
+ * Parse a function signature, with or without the `function` keyword
+ */
+function parseFunction(signature: string): AbiFunction {
+  const text = signature.trim();
+  let abiItem;
+  try {
+    abiItem = parseAbiItem(text.startsWith('function ') ? text : `function ${text}`);
+  } catch (error: any) {
+    throw new Error(`Invalid function signature "${signature}": ${error.shortMessage || error.message}`);
+  }
+
+  if (abiItem.type !== 'function') {
+    throw new Error(`Invalid function signature "${signature}"`);
+  }
+  return abiItem;
+}
+
+/**
+ * Convert a spec argument (strings when read from YAML) to the value viem expects for its ABI type
+ */
+function coerceArg(param: AbiParameter, value: unknown, path: string): unknown {
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Argument ${path}: expected an array for ${param.type}`);
+    }
+    const element = { ...param, type: array[1] } as AbiParameter;
+    return value.map((item, index) => coerceArg(element, item, `${path}[${index}]`));
+  }
+
+  if (param.type === 'tuple') {
+    const components = (param as { components: readonly AbiParameter[] }).components;
+    // Tuples are given as a list of fields or an object keyed by field name
+    if (Array.isArray(value)) {
+      if (value.length !== components.length) {
+        throw new Error(`Argument ${path}: expected ${components.length} tuple fields`);
+      }
+      return components.map((component, index) => coerceArg(component, value[index], `${path}.${component.name || index}`));
+    }
+    if (value && typeof value === 'object') {
+      const fields = value as Record<string, unknown>;
+      return Object.fromEntries(
+        components.map((component, index) => {
+          const name = component.name || String(index);
+          if (!(name in fields)) {
+            throw new Error(`Argument ${path}: missing tuple field ${name}`);
+          }
+          return [name, coerceArg(component, fields[name], `${path}.${name}`)];
+        })
+      );
+    }
+    throw new Error(`Argument ${path}: expected a list or object for a tuple`);
+  }
+
+  if (/^u?int\d*$/.test(param.type)) {
+    return parseValue(value as bigint | string | number, `argument ${path}`);
+  }
+  if (param.type === 'bool') {
+    return parseBoolean(value, `argument ${path}`);
+  }
+  if (param.type === 'address') {
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+      throw new Error(`Argument ${path}: invalid address ${value}`);
+    }
+    return getAddress(value);
+  }
+  return value;
+}
+
+function parseValue(value: bigint | string | number, name: string): bigint {
+  try {
+    return BigInt(value);
+  } catch (error) {
+    throw new Error(`Invalid ${name}: ${value} is not an integer`);
+  }
+}
+
+function parseBoolean(value: unknown, name: string): boolean {
+  if (value === true || value === 'true') {
+    return true;
+  }
+  if (value === false || value === 'false') {
+    return false;
+  }
+  throw new Error(`Invalid ${name}: expected true or false`);
+}
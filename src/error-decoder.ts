@@ -0,0 +1,234 @@
+import {
+  decodeErrorResult,
+  encodeErrorResult,
+  parseAbiItem,
+  toFunctionSelector,
+  type Abi,
+  type Hex,
+} from 'viem';
+import { formatAbiItem } from 'viem/utils';
+import { toDecodedParams } from './decoded-params';
+import { BUNDLED_ERROR_SIGNATURES } from './signature-database';
+import type { AbiRegistry } from './abi-registry';
+import type { ContractSource } from './contract-source';
+import type { SignatureDecoder } from './signature-decoder';
+import type { DecodedParam } from './types';
+
+// viem doesn't re-export abitype's AbiError
+export type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+export type ErrorKind = 'empty' | 'error' | 'panic' | 'custom' | 'unknown';
+
+export interface DecodedError {
+  kind: ErrorKind;
+  // Error name, e.g. "Error", "Panic", "InsufficientBalance"
+  name: string;
+  // e.g. "InsufficientBalance(uint256,uint256)"
+  signature?: string;
+  selector?: string;
+  args: any[];
+  // Arguments with their names and types
+  params?: DecodedParam[];
+  // Readable one-line rendering
+  reason: string;
+  // What a panic code means
+  panicMeaning?: string;
+  // Where the error definition came from: builtin, abi, registry or a signature provider name
+  source?: string;
+  data: string;
+}
+
+/**
+ * Solidity panic codes and their meaning
+ */
+export const PANIC_CODES: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'conversion to an invalid enum value',
+  0x22: 'incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory or array too large',
+  0x51: 'call to an uninitialized internal function',
+};
+
+const BUILTIN_ERRORS: Abi = [
+  parseAbiItem('error Error(string message)'),
+  parseAbiItem('error Panic(uint256 code)'),
+];
+
+export interface ErrorDecoderConfig {
+  // Target ABIs from Etherscan, Blockscout or Sourcify
+  contractSource?: ContractSource;
+  // Local ABIs, bound to the target or matched by selector
+  abiRegistry?: AbiRegistry;
+  // Signature databases, tried last
+  signatureDecoder?: SignatureDecoder;
+}
+
+/**
+ * Selector of a custom error, e.g. 0x08c379a0 for Error(string)
+ */
+export function toErrorSelector(error: AbiError): Hex {
+  return toFunctionSelector(formatAbiItem(error));
+}
+
+/**
+ * Decode revert data with the built-in errors and an optional ABI, without any lookups
+ * @param data Revert data (hex string)
+ * @param abi ABI holding custom errors
+ */
+export function decodeErrorData(data: string, abi?: Abi): DecodedError {
+  if (data === '0x' || data === '') {
+    return { kind: 'empty', name: '', args: [], reason: 'reverted without reason', data };
+  }
+
+  for (const [candidate, source] of [[BUILTIN_ERRORS, 'builtin'], [abi, 'abi']] as const) {
+    const decoded = candidate ? tryDecode(data, candidate, source) : null;
+    if (decoded) {
+      return decoded;
+    }
+  }
+
+  return {
+    kind: 'unknown',
+    name: 'unknown',
+    selector: data.slice(0, 10),
+    args: [],
+    reason: `unknown error ${data.slice(0, 10)}`,
+    data,
+  };
+}
+
+/**
+ * Decodes revert data: Error(string), Panic(uint256) and custom errors
+ * Custom errors are looked up in the target's ABI (local registry, then the contract source),
+ * in every registered ABI, the bundled common errors, and finally in the signature databases.
+ */
+export class ErrorDecoder {
+  private contractSource?: ContractSource;
+  private abiRegistry?: AbiRegistry;
+  private signatureDecoder?: SignatureDecoder;
+
+  constructor(config: ErrorDecoderConfig = {}) {
+    this.contractSource = config.contractSource;
+    this.abiRegistry = config.abiRegistry;
+    this.signatureDecoder = config.signatureDecoder;
+  }
+
+  /**
+   * Decode revert data
+   * @param data Revert data (hex string)
+   * @param target Contract that reverted, used to find its ABI
+   * @param abi ABI of the target when the caller already has it
+   */
+  async decode(data: string, target?: string, abi?: Abi): Promise<DecodedError> {
+    const decoded = decodeErrorData(data, abi ?? (target ? await this.getTargetAbi(target) : undefined));
+    if (decoded.kind !== 'unknown') {
+      return decoded;
+    }
+
+    const selector = data.slice(0, 10).toLowerCase();
+
+    const registered = this.abiRegistry?.findErrors(selector) || [];
+    const fromRegistry = tryDecode(data, registered, 'registry');
+    if (fromRegistry) {
+      return fromRegistry;
+    }
+
+    for (const signature of BUNDLED_ERROR_SIGNATURES) {
+      const fromBundled = tryDecodeSignature(data, signature, 'local');
+      if (fromBundled) {
+        return fromBundled;
+      }
+    }
+
+    if (this.signatureDecoder) {
+      for (const signature of await this.signatureDecoder.lookupSelector(selector)) {
+        const fromDatabase = tryDecodeSignature(data, signature.signature, signature.source ?? 'signature database');
+        if (fromDatabase) {
+          return fromDatabase;
+        }
+      }
+    }
+
+    return decoded;
+  }
+
+  private async getTargetAbi(target: string): Promise<Abi | undefined> {
+    const registered = this.abiRegistry?.getAbi(target);
+    if (registered) {
+      return registered;
+    }
+    return (await this.contractSource?.getContractAbi(target)) ?? undefined;
+  }
+}
+
+function tryDecode(data: string, abi: Abi, source: string): DecodedError | null {
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi, data: data as Hex });
+  } catch (error) {
+    return null;
+  }
+
+  const abiItem = decoded.abiItem as AbiError;
+  const args = [...(decoded.args || [])];
+  const signature = formatAbiItem(abiItem);
+  const base = { name: decoded.errorName, signature, selector: data.slice(0, 10), args, data };
+
+  if (decoded.errorName === 'Error' && source === 'builtin') {
+    return { ...base, kind: 'error', reason: String(args[0]), source };
+  }
+
+  if (decoded.errorName === 'Panic' && source === 'builtin') {
+    const code = Number(args[0]);
+    const panicMeaning = PANIC_CODES[code] ?? 'unknown panic code';
+    return {
+      ...base,
+      kind: 'panic',
+      reason: `Panic(0x${code.toString(16).padStart(2, '0')}): ${panicMeaning}`,
+      panicMeaning,
+      source,
+    };
+  }
+
+  return {
+    ...base,
+    kind: 'custom',
+    params: toDecodedParams(abiItem.inputs, args),
+    reason: `${decoded.errorName}(${args.map((arg) => String(arg)).join(', ')})`,
+    source,
+  };
+}
+
+/**
+ * Decode with a text signature from a signature database
+ * Signatures that decode but don't re-encode to the same bytes are rejected as collisions.
+ */
+function tryDecodeSignature(data: string, signature: string, source: string): DecodedError | null {
+  let abiItem: AbiError;
+  try {
+    const item = parseAbiItem(`error ${signature}`);
+    if (item.type !== 'error') {
+      return null;
+    }
+    abiItem = item;
+  } catch (error) {
+    return null;
+  }
+
+  const decoded = tryDecode(data, [abiItem] as Abi, source);
+  if (!decoded) {
+    return null;
+  }
+
+  try {
+    const encoded = encodeErrorResult({ abi: [abiItem], errorName: abiItem.name, args: decoded.args });
+    return encoded.toLowerCase() === data.toLowerCase() ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+}
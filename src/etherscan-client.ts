@@ -1,43 +1,53 @@
-import axios from 'axios';
 import type { Abi } from 'viem';
+import { HttpClient, isExplorerRateLimited, sharedRateLimiter } from './http-client';
+import { ETHERSCAN_V2_API_URL, toNetworkConfig, type NetworkConfig } from './networks';
+import type { Network } from './types';
+import type { ContractInfo, ContractSource } from './contract-source';
+import type { DiskCache } from './disk-cache';
+
+// Kept here for code that imported it from the Etherscan client before contract sources
+export type { ContractInfo } from './contract-source';
 
 export interface EtherscanConfig {
+  // Defaults to the network's apiKeyEnv (ETHERSCAN_API_KEY for Etherscan)
   apiKey?: string;
-  network?: 'mainnet' | 'goerli' | 'sepolia' | 'polygon' | 'arbitrum' | 'optimism' | 'base';
+  // Network name, chain id or config; the config's explorerApiUrl overrides the Etherscan V2 URL
+  network?: Network | NetworkConfig;
+  // Persistent cache shared across runs
+  cache?: DiskCache;
+  // Defaults to a client paced by the rate limiter shared by all clients of the same API URL and key
+  httpClient?: HttpClient;
 }
 
 /**
  * Client for fetching contract ABIs from Etherscan
  */
-export interface ContractInfo {
-  name: string;
-  address: string;
-  isVerified: boolean;
-  isProxy: boolean;
-  implementation?: string;
-  implementationName?: string;
-}
-
-export class EtherscanClient {
-  private cache: Map<string, Abi> = new Map();
+export class EtherscanClient implements ContractSource {
+  readonly name: string = 'etherscan';
+  // Lookups by address, kept for the lifetime of the client so each address is requested once
+  private abis: Map<string, Promise<Abi | null>> = new Map();
+  private sourceInfos: Map<string, Promise<any>> = new Map();
   private nameCache: Map<string, string> = new Map();
-  private apiKey?: string;
-  private baseUrl: string;
-  private chainId: number;
+  protected diskCache?: DiskCache;
+  protected apiKey?: string;
+  protected baseUrl: string;
+  protected chainId: number;
+  protected http: HttpClient;
   private verbose: boolean;
-  private lastRequestTime: number = 0;
-  private minRequestInterval: number; // Milliseconds between requests
 
   constructor(config: EtherscanConfig = {}) {
-    this.apiKey = config.apiKey || process.env.ETHERSCAN_API_KEY;
-    const network = config.network || 'mainnet';
-    this.baseUrl = this.getBaseUrl(network);
-    this.chainId = this.getChainId(network);
+    const network = toNetworkConfig(config.network);
+    const apiKeyEnv = network.apiKeyEnv ?? this.defaultApiKeyEnv();
+    this.apiKey = config.apiKey || (apiKeyEnv ? process.env[apiKeyEnv] : undefined);
+    this.baseUrl = network.explorerApiUrl || ETHERSCAN_V2_API_URL;
+    this.chainId = network.chainId;
     this.verbose = false;
+    this.diskCache = config.cache;
 
-    // With API key: 250ms between requests (4 req/sec, safer than 5/sec limit)
-    // Without API key: 1000ms between requests (1 req/sec to be safe)
-    this.minRequestInterval = this.apiKey ? 250 : 1000;
+    this.http = config.httpClient || new HttpClient({
+      rateLimiter: sharedRateLimiter(`${this.baseUrl}:${this.apiKey ?? ''}`, { requestsPerSecond: this.requestsPerSecond() }),
+      isRateLimited: isExplorerRateLimited,
+    });
 
     if (this.verbose && this.apiKey) {
       console.log(`Etherscan API key loaded: ${this.apiKey.substring(0, 8)}...`);
@@ -47,99 +57,92 @@ export class EtherscanClient {
   }
 
   /**
-   * Sleep for a specified number of milliseconds
+   * Request rate of the API
+   * With API key: 4 req/sec, safer than the 5/sec limit. Without API key: 1 req/sec to be safe.
    */
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  protected requestsPerSecond(): number {
+    return this.apiKey ? 4 : 1;
   }
 
   /**
-   * Throttle requests to respect rate limits
+   * Environment variable read for the API key when the network names none
    */
-  private async throttle(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.minRequestInterval) {
-      const waitTime = this.minRequestInterval - timeSinceLastRequest;
-      if (this.verbose) {
-        console.log(`Throttling: waiting ${waitTime}ms before next request`);
-      }
-      await this.sleep(waitTime);
-    }
-
-    this.lastRequestTime = Date.now();
+  protected defaultApiKeyEnv(): string | undefined {
+    return 'ETHERSCAN_API_KEY';
   }
 
-  private getBaseUrl(network: string): string {
-    // Using V2 API endpoints
-    const urls: Record<string, string> = {
-      mainnet: 'https://api.etherscan.io/v2/api',
-      goerli: 'https://api.etherscan.io/v2/api',
-      sepolia: 'https://api.etherscan.io/v2/api',
-      polygon: 'https://api.etherscan.io/v2/api',
-      arbitrum: 'https://api.etherscan.io/v2/api',
-      optimism: 'https://api.etherscan.io/v2/api',
-      base: 'https://api.etherscan.io/v2/api',
+  /**
+   * Query parameters of an API request
+   */
+  protected requestParams(action: string, address: string): Record<string, unknown> {
+    const params: Record<string, unknown> = {
+      chainid: this.chainId,
+      module: 'contract',
+      action,
+      address,
     };
 
-    return urls[network] || urls.mainnet;
+    if (this.apiKey) {
+      params.apikey = this.apiKey;
+    }
+
+    return params;
   }
 
-  private getChainId(network: string): number {
-    const chainIds: Record<string, number> = {
-      mainnet: 1,
-      goerli: 5,
-      sepolia: 11155111,
-      polygon: 137,
-      arbitrum: 42161,
-      optimism: 10,
-      base: 8453,
-    };
+  /**
+   * Persistent cache key of an address
+   */
+  protected cacheKey(address: string): string {
+    return `${this.chainId}:${address}`;
+  }
 
-    return chainIds[network] || chainIds.mainnet;
+  /**
+   * Source code metadata in Etherscan's shape (`ContractName`, `Implementation`, ...)
+   */
+  protected toSourceInfo(result: any): any {
+    return result;
   }
 
   /**
    * Fetch contract ABI from Etherscan
    * @param address Contract address
    */
-  async getContractAbi(address: string): Promise<Abi | null> {
+  getContractAbi(address: string): Promise<Abi | null> {
     // Normalize address
     const normalizedAddress = address.toLowerCase();
 
-    // Check cache first
-    if (this.cache.has(normalizedAddress)) {
-      return this.cache.get(normalizedAddress)!;
+    if (!this.abis.has(normalizedAddress)) {
+      this.abis.set(normalizedAddress, this.fetchContractAbi(normalizedAddress));
     }
 
-    try {
-      const params: any = {
-        chainid: this.chainId,
-        module: 'contract',
-        action: 'getabi',
-        address: normalizedAddress,
-      };
-
-      if (this.apiKey) {
-        params.apikey = this.apiKey;
-      }
+    return this.abis.get(normalizedAddress)!;
+  }
 
-      const response = await axios.get(this.baseUrl, {
-        params,
-        timeout: 10000,
-      });
+  private async fetchContractAbi(address: string): Promise<Abi | null> {
+    const cacheKey = this.cacheKey(address);
+    const cached = this.diskCache?.get<Abi>('abi', cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
 
-      if (response.data.status === '1' && response.data.result) {
-        const abi = JSON.parse(response.data.result) as Abi;
-        this.cache.set(normalizedAddress, abi);
+    try {
+      const data = await this.http.get(this.baseUrl, this.requestParams('getabi', address));
+
+      if (data.status === '1' && data.result) {
+        const abi = JSON.parse(data.result) as Abi;
+        this.diskCache?.set('abi', cacheKey, abi);
         return abi;
       }
 
-      // Contract not verified or not found
+      // Contract not verified or not found (rate limits and API errors are not cached)
+      if (`${data.result ?? ''} ${data.message ?? ''}`.includes('not verified')) {
+        this.diskCache?.setNegative('abi', cacheKey);
+      } else if (isExplorerRateLimited(data)) {
+        console.error(`⚠️  Rate limit reached for ${address}`);
+      }
       return null;
-    } catch (error) {
-      console.error(`Failed to fetch ABI for ${address}:`, error);
+    } catch (error: any) {
+      console.error(`Failed to fetch ABI for ${address}:`, error.message);
       return null;
     }
   }
@@ -166,154 +169,80 @@ export class EtherscanClient {
       return this.nameCache.get(normalizedAddress)!;
     }
 
-    // Throttle to respect rate limits
-    await this.throttle();
-
-    try {
-      const params: any = {
-        chainid: this.chainId,
-        module: 'contract',
-        action: 'getsourcecode',
-        address: normalizedAddress,
-      };
-
-      if (this.apiKey) {
-        params.apikey = this.apiKey;
-      }
-
-      const response = await axios.get(this.baseUrl, {
-        params,
-        timeout: 10000,
-      });
+    const sourceInfo = await this.getSourceCodeInfo(normalizedAddress);
+    const contractName = sourceInfo?.ContractName;
 
+    if (contractName && contractName !== '') {
+      this.nameCache.set(normalizedAddress, contractName);
       if (this.verbose) {
-        console.log(`Etherscan response for ${address}:`, {
-          status: response.data.status,
-          message: response.data.message,
-          hasResult: !!response.data.result,
-        });
-      }
-
-      if (response.data.status === '1' && response.data.result && response.data.result.length > 0) {
-        const contractName = response.data.result[0].ContractName;
-        if (contractName && contractName !== '') {
-          this.nameCache.set(normalizedAddress, contractName);
-          if (this.verbose) {
-            console.log(`Found contract name: ${contractName}`);
-          }
-          return contractName;
-        }
+        console.log(`Found contract name: ${contractName}`);
       }
-
-      // Check for rate limit or API errors
-      if (response.data.status === '0' && response.data.message) {
-        if (response.data.message.includes('rate limit')) {
-          console.error(`⚠️  Rate limit reached for ${address}`);
-        } else if (response.data.result && response.data.result.includes('Invalid API Key')) {
-          console.error('❌ Invalid Etherscan API key');
-        } else {
-          console.error(`⚠️  Etherscan API error: ${response.data.message}`);
-        }
-      }
-
-      // Contract not verified or name not found
-      return 'Unknown Contract';
-    } catch (error: any) {
-      if (error.response?.status === 429) {
-        console.error(`Rate limit reached for ${address}`);
-      } else {
-        console.error(`Failed to fetch contract name for ${address}:`, error.message);
-      }
-      return 'Unknown Contract';
+      return contractName;
     }
+
+    // Contract not verified or name not found
+    return 'Unknown Contract';
   }
 
   /**
-   * Check if a contract is a proxy and get implementation address
+   * Get the implementation address Etherscan reports for a proxy
    * @param address Contract address
+   * @returns Implementation address, or null for non-proxies and unknown contracts
    */
-  private async getProxyImplementation(address: string): Promise<string | null> {
-    const normalizedAddress = address.toLowerCase();
-
-    // Throttle to respect rate limits
-    await this.throttle();
-
-    try {
-      const params: any = {
-        chainid: this.chainId,
-        module: 'contract',
-        action: 'getsourcecode',
-        address: normalizedAddress,
-      };
-
-      if (this.apiKey) {
-        params.apikey = this.apiKey;
-      }
+  async getImplementationAddress(address: string): Promise<string | null> {
+    const sourceInfo = await this.getSourceCodeInfo(address);
 
-      const response = await axios.get(this.baseUrl, {
-        params,
-        timeout: 10000,
-      });
-
-      if (response.data.status === '1' && response.data.result && response.data.result.length > 0) {
-        const result = response.data.result[0];
-
-        // Check if Implementation field exists (indicates proxy)
-        if (result.Implementation && result.Implementation !== '') {
-          return result.Implementation.toLowerCase();
-        }
-
-        // Check Proxy field
-        if (result.Proxy === '1' && result.Implementation) {
-          return result.Implementation.toLowerCase();
-        }
-      }
-
-      return null;
-    } catch (error) {
-      return null;
+    if (sourceInfo?.Implementation && sourceInfo.Implementation !== '') {
+      return sourceInfo.Implementation.toLowerCase();
     }
+
+    return null;
   }
 
   /**
    * Get contract source code info from Etherscan (name, proxy status, etc.)
    * This method makes a single API call and extracts all info
    */
-  private async getSourceCodeInfo(address: string): Promise<any> {
+  private getSourceCodeInfo(address: string): Promise<any> {
     const normalizedAddress = address.toLowerCase();
 
-    // Throttle to respect rate limits
-    await this.throttle();
+    if (!this.sourceInfos.has(normalizedAddress)) {
+      this.sourceInfos.set(normalizedAddress, this.fetchSourceCodeInfo(normalizedAddress));
+    }
 
-    try {
-      const params: any = {
-        chainid: this.chainId,
-        module: 'contract',
-        action: 'getsourcecode',
-        address: normalizedAddress,
-      };
-
-      if (this.apiKey) {
-        params.apikey = this.apiKey;
-      }
+    return this.sourceInfos.get(normalizedAddress)!;
+  }
 
-      const response = await axios.get(this.baseUrl, {
-        params,
-        timeout: 10000,
-      });
+  private async fetchSourceCodeInfo(address: string): Promise<any> {
+    const cacheKey = this.cacheKey(address);
+    const cached = this.diskCache?.get<any>('contract', cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
 
-      if (response.data.status === '1' && response.data.result && response.data.result.length > 0) {
-        return response.data.result[0];
+    try {
+      const data = await this.http.get(this.baseUrl, this.requestParams('getsourcecode', address));
+
+      if (data.status === '1' && data.result && data.result.length > 0) {
+        // Drop the (potentially huge) source code and ABI, only metadata is used
+        const { SourceCode, ABI, ...result } = this.toSourceInfo(data.result[0]);
+        // Unverified contracts come back without a name, cache them as negative results
+        if (result.ContractName) {
+          this.diskCache?.set('contract', cacheKey, result);
+        } else {
+          this.diskCache?.setNegative('contract', cacheKey);
+        }
+        return result;
       }
 
       // Check for rate limit or API errors
-      if (response.data.status === '0' && response.data.message) {
-        if (response.data.message.includes('rate limit')) {
+      if (data.status === '0' && data.message) {
+        if (isExplorerRateLimited(data)) {
           console.error(`⚠️  Rate limit reached for ${address}`);
-        } else if (response.data.result && response.data.result.includes('Invalid API Key')) {
+        } else if (data.result && data.result.includes('Invalid API Key')) {
           console.error('❌ Invalid Etherscan API key');
         } else {
-          console.error(`⚠️  Etherscan API error: ${response.data.message}`);
+          console.error(`⚠️  ${this.name} API error: ${data.message}`);
         }
       }
 
@@ -363,7 +292,7 @@ export class EtherscanClient {
 
     let implementationName: string | undefined;
     if (isProxy && implementationAddress) {
-      // Get the implementation contract name (this will make another throttled API call)
+      // Get the implementation contract name (this will make another rate-limited API call)
       implementationName = await this.getContractName(implementationAddress);
       if (implementationName === 'Unknown Contract') {
         implementationName = undefined;
@@ -384,7 +313,8 @@ export class EtherscanClient {
    * Clear the cache
    */
   clearCache(): void {
-    this.cache.clear();
+    this.abis.clear();
+    this.sourceInfos.clear();
     this.nameCache.clear();
   }
 
@@ -0,0 +1,278 @@
+import { execFile, spawn } from 'child_process';
+import axios from 'axios';
+import { formatEther } from 'viem';
+import { formatDecodedParams } from './decoded-params';
+import type { ContractInfo } from './contract-source';
+import type { DecodedCall } from './types';
+
+export interface ExplainRequest {
+  // Prompt for language-model backends
+  prompt: string;
+  // The decoded calls the prompt describes, for backends that don't need a model
+  calls: DecodedCall[];
+  contractInfoMap?: Map<string, ContractInfo>;
+}
+
+/**
+ * Something that turns decoded calls into an explanation
+ * Backends answer with the JSON object described in the prompt, the Explainer validates it.
+ */
+export interface ExplainerBackend {
+  readonly name: string;
+  // Settings that change the output (command, endpoint, model), part of the cache key of explanations
+  readonly cacheKey: string;
+  // Whether the backend can be used here (CLI installed, endpoint configured, ...)
+  isAvailable(): Promise<boolean>;
+  explain(request: ExplainRequest): Promise<string>;
+}
+
+const DEFAULT_TIMEOUT = 120_000;
+
+export interface CliBackendOptions {
+  command?: string;
+  args?: string[];
+  // Milliseconds
+  timeout?: number;
+}
+
+/**
+ * Runs a local CLI (`claude -p` by default) with the prompt on stdin
+ * The process is spawned without a shell, so prompts of any size and content are passed as is.
+ */
+export class CliExplainerBackend implements ExplainerBackend {
+  readonly name: string;
+  private command: string;
+  private args: string[];
+  private timeout: number;
+
+  constructor(options: CliBackendOptions = {}) {
+    this.command = options.command ?? 'claude';
+    this.args = options.args ?? ['-p'];
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.name = this.command;
+  }
+
+  get cacheKey(): string {
+    return [this.command, ...this.args].join(' ');
+  }
+
+  isAvailable(): Promise<boolean> {
+    return new Promise((resolve) => {
+      execFile('which', [this.command], (error) => resolve(!error));
+    });
+  }
+
+  explain(request: ExplainRequest): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, this.args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGTERM');
+      }, this.timeout);
+
+      child.stdout.on('data', (chunk) => (stdout += chunk));
+      child.stderr.on('data', (chunk) => (stderr += chunk));
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to run ${this.command}: ${error.message}`));
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new Error(`${this.command} timed out after ${this.timeout / 1000}s`));
+        } else if (code !== 0) {
+          reject(new Error(`${this.command} exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`));
+        } else {
+          resolve(stdout.trim());
+        }
+      });
+
+      // The process may exit before reading its input, which surfaces through 'close'
+      child.stdin.on('error', () => {});
+      child.stdin.end(request.prompt);
+    });
+  }
+}
+
+export interface HttpBackendOptions {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  // Milliseconds
+  timeout?: number;
+}
+
+/**
+ * Sends the prompt to an OpenAI-compatible `/chat/completions` endpoint
+ * Defaults come from EXPLAINER_BASE_URL, EXPLAINER_MODEL and EXPLAINER_API_KEY.
+ */
+export class HttpExplainerBackend implements ExplainerBackend {
+  readonly name = 'http';
+  private baseUrl?: string;
+  private model?: string;
+  private apiKey?: string;
+  private timeout: number;
+
+  constructor(options: HttpBackendOptions = {}) {
+    this.baseUrl = (options.baseUrl || process.env.EXPLAINER_BASE_URL)?.replace(/\/+$/, '');
+    this.model = options.model || process.env.EXPLAINER_MODEL;
+    this.apiKey = options.apiKey || process.env.EXPLAINER_API_KEY;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  get cacheKey(): string {
+    return `${this.baseUrl ?? ''} ${this.model ?? ''}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.baseUrl);
+  }
+
+  async explain(request: ExplainRequest): Promise<string> {
+    if (!this.baseUrl) {
+      throw new Error('No chat completions endpoint configured (--explainer-url or EXPLAINER_BASE_URL)');
+    }
+
+    let response;
+    try {
+      response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model: this.model,
+          messages: [{ role: 'user', content: request.prompt }],
+        },
+        {
+          timeout: this.timeout,
+          headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        }
+      );
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new Error(`Chat completions request to ${this.baseUrl} failed: ${detail}`);
+    }
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`Unexpected chat completions response from ${this.baseUrl}`);
+    }
+    return content.trim();
+  }
+}
+
+/**
+ * Deterministic explanation built from the decoded calls, no model involved
+ * Answers with the same JSON schema the language-model backends are asked for.
+ */
+export class TemplateExplainerBackend implements ExplainerBackend {
+  readonly name = 'template';
+  readonly cacheKey = 'template';
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async explain(request: ExplainRequest): Promise<string> {
+    const { calls, contractInfoMap } = request;
+
+    const totalValue = calls.reduce((total, call) => total + (call.value ?? 0n), 0n);
+    const format = calls[0]?.format;
+    const summary =
+      `${calls.length} call(s)${format ? ` batched with ${format}` : ''}` +
+      (totalValue > 0n ? `, sending ${formatEther(totalValue)} ETH in total` : '') +
+      '.';
+
+    const labelled = labelCalls(calls);
+    const explanations = labelled.map(({ label, call }) => ({
+      call: label,
+      explanation: this.describeCall(call, contractInfoMap),
+    }));
+
+    const risks = labelled
+      .flatMap(({ call }) => call.risks || [])
+      .map((risk) => `${risk.severity.toUpperCase()} (call ${risk.call}): ${risk.message}`);
+
+    return JSON.stringify({ summary, calls: explanations, relationships: findApprovalsUsed(labelled), risks });
+  }
+
+  private describeCall(call: DecodedCall, contractInfoMap?: Map<string, ContractInfo>): string {
+    const operation = call.operation === 'delegatecall' ? 'Delegatecalls' : 'Calls';
+    const value = call.value !== undefined && call.value > 0n ? `, sending ${formatEther(call.value)} ETH` : '';
+    const params = formatDecodedParams(call.params || [], {
+      formatValue: (value, param) => param.formatted || param.label || String(value),
+    }).map((line) => line.trim());
+
+    const details = `${operation} \`${call.functionSignature}\` on ${describeTarget(call.target, contractInfoMap, call.targetLabel)}${value}` +
+      (params.length > 0 ? ` with ${params.join('; ')}` : '');
+    return call.description ? `${call.description}. ${details}` : details;
+  }
+}
+
+interface LabelledCall {
+  // "1", "2", "2.1", ...
+  label: string;
+  call: DecodedCall;
+}
+
+function labelCalls(calls: DecodedCall[], prefix = ''): LabelledCall[] {
+  return calls.flatMap((call, index) => {
+    const label = `${prefix}${index + 1}`;
+    return [{ label, call }, ...labelCalls(call.children || [], `${label}.`)];
+  });
+}
+
+/**
+ * Approvals whose spender is called later in the batch
+ */
+function findApprovalsUsed(calls: LabelledCall[]): string[] {
+  const relationships: string[] = [];
+
+  calls.forEach(({ label, call }, index) => {
+    if (!['approve', 'setApprovalForAll', 'increaseAllowance'].includes(call.functionName)) {
+      return;
+    }
+    const spender = String(call.args[0]).toLowerCase();
+    const user = calls.slice(index + 1).find(({ call: later }) => later.target.toLowerCase() === spender);
+    if (user) {
+      relationships.push(`Call ${label} lets ${call.args[0]} spend tokens of ${call.target}, which call ${user.label} then calls`);
+    }
+  });
+
+  return relationships;
+}
+
+function describeTarget(target: string, contractInfoMap?: Map<string, ContractInfo>, label?: string): string {
+  const name = label || contractInfoMap?.get(target.toLowerCase())?.name;
+  return name && name !== 'Unknown Contract' ? `${name} (${target})` : target;
+}
+
+export const EXPLAINER_BACKEND_NAMES = ['claude', 'http', 'template'] as const;
+
+export interface ExplainerBackendOptions {
+  // Milliseconds, for the claude and http backends
+  timeout?: number;
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+/**
+ * Create an explainer backend by name
+ * @param name Backend name (claude, http, template)
+ */
+export function createExplainerBackend(name: string, options: ExplainerBackendOptions = {}): ExplainerBackend {
+  switch (name) {
+    case 'claude':
+      return new CliExplainerBackend({ timeout: options.timeout });
+    case 'http':
+      return new HttpExplainerBackend(options);
+    case 'template':
+      return new TemplateExplainerBackend();
+    default:
+      throw new Error(`Unknown explainer "${name}" (expected one of ${EXPLAINER_BACKEND_NAMES.join(', ')})`);
+  }
+}
@@ -1,27 +1,68 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { createHash } from 'crypto';
 import chalk from 'chalk';
+import { formatDecodedParams } from './decoded-params';
+import { CliExplainerBackend, type ExplainerBackend } from './explainer-backends';
 import type { DecodedCall } from './types';
-import type { ContractInfo } from './etherscan-client';
+import type { ContractInfo } from './contract-source';
+import type { DiskCache } from './disk-cache';
 
-const execAsync = promisify(exec);
+export interface CallExplanation {
+  // Call label, e.g. "1" or "2.1" for nested calls
+  call: string;
+  explanation: string;
+}
+
+export interface Explanation {
+  // What the transaction accomplishes, in a few sentences
+  summary: string;
+  calls: CallExplanation[];
+  // How calls depend on each other (approve then swap, ...)
+  relationships: string[];
+  risks: string[];
+  // Backend that produced the explanation
+  backend: string;
+}
+
+export interface ExplainerOptions {
+  // Explanations are cached by a hash of the decoded calls
+  cache?: DiskCache;
+}
+
+const EXPLANATION_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using this schema:
+
+{
+  "summary": "What the transaction accomplishes and its likely use case, in 1-3 sentences",
+  "calls": [{ "call": "1", "explanation": "What this call does and what its arguments mean" }],
+  "relationships": ["How the calls depend on or work with each other, if they do"],
+  "risks": ["Anything the signer should double check, such as approvals, recipients or upgrades"]
+}
+
+Add one "calls" entry per call, labelled "1", "2", ... and "2.1" for nested calls. Use empty arrays when there are no relationships or risks. Be direct and factual.`;
 
 /**
- * Uses Claude CLI to explain decoded multicall data
+ * Explains decoded multicall data with an explainer backend (Claude CLI by default)
  */
 export class Explainer {
-  constructor() {}
+  private backend: ExplainerBackend;
+  private cache?: DiskCache;
+
+  constructor(backend: ExplainerBackend = new CliExplainerBackend(), options: ExplainerOptions = {}) {
+    this.backend = backend;
+    this.cache = options.cache;
+  }
 
   /**
-   * Check if claude CLI is available
+   * Name of the backend in use
    */
-  async isClaudeAvailable(): Promise<boolean> {
-    try {
-      await execAsync('which claude');
-      return true;
-    } catch {
-      return false;
-    }
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Check if the backend can be used
+   */
+  isAvailable(): Promise<boolean> {
+    return this.backend.isAvailable();
   }
 
   /**
@@ -37,9 +78,43 @@ export class Explainer {
       lines.push(`Contract Address: ${call.target}`);
     }
 
+    if (call.targetLabel && call.targetLabel !== contractInfo?.name) {
+      lines.push(`Label: ${call.targetLabel}`);
+    }
+
+    if (call.operation === 'delegatecall') {
+      lines.push(`Operation: DELEGATECALL (runs the target's code in the caller's context)`);
+    }
+
+    if (call.value !== undefined && call.value > 0n) {
+      lines.push(`Value: ${call.value.toString()} wei`);
+    }
+
+    if (call.allowFailure) {
+      lines.push(`Allow Failure: Yes`);
+    }
+
     lines.push(`Function: ${call.functionSignature}`);
 
-    if (call.args && call.args.length > 0) {
+    if (call.description) {
+      lines.push(`Description: ${call.description}`);
+    }
+
+    if (call.candidates && call.candidates.length > 1) {
+      const alternatives = call.candidates.map(candidate => `${candidate.signature} (${Math.round(candidate.confidence * 100)}%)`);
+      lines.push(`Ambiguous Selector: ${alternatives.join(', ')}`);
+    }
+
+    if (call.params && call.params.length > 0) {
+      lines.push(`Arguments:`);
+      formatDecodedParams(call.params, {
+        formatValue: (value, param) => {
+          const text = param.formatted ? `${param.formatted} (raw ${String(value)})` : this.formatArgument(value);
+          return param.label ? `${text} [${param.label}]` : text;
+        },
+      })
+        .forEach(line => lines.push(`  ${line}`));
+    } else if (call.args && call.args.length > 0) {
       lines.push(`Arguments:`);
       call.args.forEach((arg, index) => {
         const argStr = this.formatArgument(arg);
@@ -47,6 +122,20 @@ export class Explainer {
       });
     }
 
+    if (call.path && call.path.length > 0) {
+      const hops = call.path.map(hop => `${hop.tokenIn} -> ${hop.tokenOut} (fee ${hop.fee})`);
+      lines.push(`Swap Path: ${hops.join(', ')}`);
+    }
+
+    if (call.children && call.children.length > 0) {
+      lines.push(`Nested Calls:`);
+      call.children.forEach((child, index) => {
+        const childLines = this.formatCallForExplanation(child).split('\n');
+        lines.push(`  Nested Call ${index + 1}:`);
+        childLines.forEach(line => lines.push(`    ${line}`));
+      });
+    }
+
     return lines.join('\n');
   }
 
@@ -70,118 +159,145 @@ export class Explainer {
   }
 
   /**
-   * Format Claude output with colored headings instead of markdown
+   * Render an explanation with colored headings for the terminal
    */
-  private formatOutput(text: string): string {
-    const lines = text.split('\n');
-    const formatted: string[] = [];
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Convert markdown headers to colored text
-      if (line.startsWith('## ')) {
-        formatted.push(chalk.bold.cyan(line.replace('## ', '')));
-      } else if (line.startsWith('# ')) {
-        formatted.push(chalk.bold.blue(line.replace('# ', '')));
-      } else if (line.startsWith('### ')) {
-        formatted.push(chalk.bold.yellow(line.replace('### ', '')));
-      } else {
-        formatted.push(line);
-      }
-    }
-
-    return formatted.join('\n');
+  formatExplanation(explanation: Explanation): string {
+    const lines = [chalk.bold.cyan('Summary'), explanation.summary];
+
+    if (explanation.calls.length > 0) {
+      lines.push('', chalk.bold.cyan('Calls'));
+      explanation.calls.forEach(call => lines.push(`  ${chalk.yellow(`Call ${call.call}:`)} ${call.explanation}`));
+    }
+
+    if (explanation.relationships.length > 0) {
+      lines.push('', chalk.bold.cyan('Relationships'));
+      explanation.relationships.forEach(relationship => lines.push(`  - ${relationship}`));
+    }
+
+    if (explanation.risks.length > 0) {
+      lines.push('', chalk.bold.cyan('Risks'));
+      explanation.risks.forEach(risk => lines.push(`  - ${risk}`));
+    }
+
+    return lines.join('\n');
   }
 
   /**
-   * Explain a single decoded call using Claude CLI
+   * Ask the backend for an explanation, or reuse a cached one for the same calls, prompt and backend settings
    */
-  async explainCall(call: DecodedCall, contractInfo?: ContractInfo): Promise<string> {
-    const claudeAvailable = await this.isClaudeAvailable();
-    if (!claudeAvailable) {
-      throw new Error('Claude CLI is not available. Please install claude CLI first.');
+  private async explain(prompt: string, calls: DecodedCall[], contractInfoMap?: Map<string, ContractInfo>): Promise<Explanation> {
+    const key = `${this.backend.name}:${hashRequest(this.backend.cacheKey, prompt, calls)}`;
+    const cached = this.cache?.get<Explanation>('explanation', key);
+    if (cached) {
+      return cached;
     }
 
-    const formattedCall = this.formatCallForExplanation(call, contractInfo);
-
-    const prompt = `Provide a clear, objective analysis of this Ethereum smart contract function call. Format your response with markdown headers (##) for major sections.
-
-${formattedCall}
+    if (!(await this.backend.isAvailable())) {
+      throw new Error(`Explainer ${this.backend.name} is not available`);
+    }
 
-Structure your analysis as follows:
+    let explanation: Explanation;
+    try {
+      const output = await this.backend.explain({ prompt, calls, contractInfoMap });
+      explanation = { ...parseExplanation(output), backend: this.backend.name };
+    } catch (error: any) {
+      throw new Error(`Failed to get explanation from ${this.backend.name}: ${error.message}`);
+    }
 
-## Function Overview
-Explain what this function does
+    this.cache?.set('explanation', key, explanation);
+    return explanation;
+  }
 
-## Arguments
-Describe what each argument represents
+  /**
+   * Explain a single decoded call
+   */
+  async explainCall(call: DecodedCall, contractInfo?: ContractInfo): Promise<Explanation> {
+    const formattedCall = this.formatCallForExplanation(call, contractInfo);
 
-## Purpose
-Explain the likely use case for this call
+    const prompt = `Provide a clear, objective analysis of this Ethereum smart contract function call.
 
-Be direct and factual. Do not use phrases like "Let me explain" or "I'll analyze". Start directly with the technical analysis.`;
+Call 1:
+${formattedCall}
 
-    try {
-      // Use claude -p flag to pipe the prompt
-      const { stdout, stderr } = await execAsync(`echo ${JSON.stringify(prompt)} | claude -p`, {
-        maxBuffer: 1024 * 1024 * 10, // 10MB buffer
-      });
+${EXPLANATION_INSTRUCTIONS}`;
 
-      const output = stdout.trim();
-      return this.formatOutput(output);
-    } catch (error: any) {
-      throw new Error(`Failed to get explanation from Claude CLI: ${error.message}`);
-    }
+    const contractInfoMap = contractInfo ? new Map([[call.target.toLowerCase(), contractInfo]]) : undefined;
+    return this.explain(prompt, [call], contractInfoMap);
   }
 
   /**
-   * Explain multiple decoded calls using Claude CLI
+   * Explain multiple decoded calls
    */
   async explainMulticall(
     calls: DecodedCall[],
     contractInfoMap?: Map<string, ContractInfo>
-  ): Promise<string> {
-    const claudeAvailable = await this.isClaudeAvailable();
-    if (!claudeAvailable) {
-      throw new Error('Claude CLI is not available. Please install claude CLI first.');
-    }
-
+  ): Promise<Explanation> {
     const formattedCalls = calls.map((call, index) => {
       const contractInfo = contractInfoMap?.get(call.target.toLowerCase());
       return `Call ${index + 1}:\n${this.formatCallForExplanation(call, contractInfo)}`;
     }).join('\n\n---\n\n');
 
-    const prompt = `Provide a clear, objective analysis of this Ethereum multicall transaction. Format your response with markdown headers (##) for major sections. The multicall contains ${calls.length} individual function calls:
+    const prompt = `Provide a clear, objective analysis of this Ethereum multicall transaction. The multicall contains ${calls.length} individual function calls:
 
 ${formattedCalls}
 
-Structure your analysis as follows:
-
-## Transaction Overview
-Describe what this multicall transaction accomplishes
-
-## Individual Calls
-Break down each call and its function
+${EXPLANATION_INSTRUCTIONS}`;
 
-## Relationship Between Calls
-Explain how the calls work together (if they're related)
+    return this.explain(prompt, calls, contractInfoMap);
+  }
+}
 
-## Use Case
-Describe the likely purpose of this transaction
+/**
+ * Check a backend response against the explanation schema
+ * The JSON may be wrapped in prose or a code fence.
+ */
+export function parseExplanation(text: string): Omit<Explanation, 'backend'> {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('response is not a JSON object');
+  }
 
-Be direct and factual. Do not use conversational phrases like "Let me analyze" or "I'll break this down". Start directly with the technical analysis.`;
+  let value: any;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch (error: any) {
+    throw new Error(`response is not valid JSON: ${error.message}`);
+  }
 
-    try {
-      // Use claude -p flag to pipe the prompt
-      const { stdout, stderr } = await execAsync(`echo ${JSON.stringify(prompt)} | claude -p`, {
-        maxBuffer: 1024 * 1024 * 10, // 10MB buffer
-      });
+  if (typeof value.summary !== 'string' || value.summary.trim() === '') {
+    throw new Error('"summary" must be a non-empty string');
+  }
+  if (!Array.isArray(value.calls)) {
+    throw new Error('"calls" must be an array');
+  }
 
-      const output = stdout.trim();
-      return this.formatOutput(output);
-    } catch (error: any) {
-      throw new Error(`Failed to get explanation from Claude CLI: ${error.message}`);
+  const calls = value.calls.map((call: any, index: number) => {
+    if (typeof call?.explanation !== 'string' || !['string', 'number'].includes(typeof call.call)) {
+      throw new Error(`"calls[${index}]" must have a "call" label and an "explanation" string`);
     }
+    return { call: String(call.call), explanation: call.explanation };
+  });
+
+  return {
+    summary: value.summary,
+    calls,
+    relationships: stringList(value.relationships ?? [], 'relationships'),
+    risks: stringList(value.risks ?? [], 'risks'),
+  };
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`"${field}" must be an array of strings`);
   }
+  return value;
+}
+
+/**
+ * Cache key of decoded calls, including their labels, formatted values and risks
+ */
+function hashRequest(backendKey: string, prompt: string, calls: DecodedCall[]): string {
+  const json = JSON.stringify([backendKey, prompt, calls], (_, v) => typeof v === 'bigint' ? v.toString() : v);
+  return createHash('sha256').update(json).digest('hex');
 }
@@ -0,0 +1,152 @@
+import axios from 'axios';
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  // Requests allowed back to back before pacing kicks in, defaults to 1
+  burst?: number;
+}
+
+/**
+ * Token bucket rate limiter; callers are served in order
+ */
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimiterOptions) {
+    this.requestsPerSecond = options.requestsPerSecond;
+    this.burst = options.burst ?? 1;
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Wait for a token
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+const sharedRateLimiters: Map<string, RateLimiter> = new Map();
+
+/**
+ * Rate limiter shared by every client of the same API (and API key) in the process
+ * The options of the first caller for a key are used.
+ */
+export function sharedRateLimiter(key: string, options: RateLimiterOptions): RateLimiter {
+  if (!sharedRateLimiters.has(key)) {
+    sharedRateLimiters.set(key, new RateLimiter(options));
+  }
+  return sharedRateLimiters.get(key)!;
+}
+
+export interface HttpClientOptions {
+  rateLimiter?: RateLimiter;
+  // Retries of rate-limited requests, defaults to 3
+  retries?: number;
+  // First backoff delay in milliseconds, doubled on every retry; defaults to 1000
+  retryDelay?: number;
+  // Request timeout in milliseconds, defaults to 10000
+  timeout?: number;
+  // Detects rate limits reported in a successful response body (e.g. Etherscan's "Max rate limit reached")
+  isRateLimited?: (data: any) => boolean;
+}
+
+/**
+ * JSON GET requests paced by a rate limiter, retried with exponential backoff when rate limited
+ * Identical requests in flight at the same time share a single response.
+ */
+export class HttpClient {
+  private rateLimiter?: RateLimiter;
+  private retries: number;
+  private retryDelay: number;
+  private timeout: number;
+  private isRateLimited: (data: any) => boolean;
+  private inFlight: Map<string, Promise<any>> = new Map();
+
+  constructor(options: HttpClientOptions = {}) {
+    this.rateLimiter = options.rateLimiter;
+    this.retries = options.retries ?? 3;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.timeout = options.timeout ?? 10000;
+    this.isRateLimited = options.isRateLimited ?? (() => false);
+  }
+
+  /**
+   * GET a URL and resolve to the response body
+   * Rejects with the axios error on HTTP errors, including 429 once retries are exhausted.
+   */
+  get<T = any>(url: string, params: Record<string, unknown> = {}): Promise<T> {
+    const key = `${url}?${JSON.stringify(Object.entries(params).sort(([a], [b]) => a.localeCompare(b)))}`;
+
+    if (!this.inFlight.has(key)) {
+      const request = this.request(url, params).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, request);
+    }
+
+    return this.inFlight.get(key)!;
+  }
+
+  private async request(url: string, params: Record<string, unknown>): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter?.acquire();
+
+      try {
+        const response = await axios.get(url, { params, timeout: this.timeout });
+        if (attempt < this.retries && this.isRateLimited(response.data)) {
+          await sleep(this.backoff(attempt));
+          continue;
+        }
+        return response.data;
+      } catch (error: any) {
+        if (attempt < this.retries && error.response?.status === 429) {
+          await sleep(this.backoff(attempt, error.response.headers?.['retry-after']));
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Delay before a retry: the server's Retry-After when given, exponential otherwise
+   */
+  private backoff(attempt: number, retryAfter?: string): number {
+    const seconds = Number(retryAfter);
+    if (retryAfter && Number.isFinite(seconds)) {
+      return seconds * 1000;
+    }
+    return this.retryDelay * 2 ** attempt;
+  }
+}
+
+/**
+ * Etherscan-style rate limit error: status "0" with "rate limit" in the message or result
+ */
+export function isExplorerRateLimited(data: any): boolean {
+  return data?.status === '0' && /rate limit/i.test(`${typeof data.result === 'string' ? data.result : ''} ${data.message ?? ''}`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,5 +1,112 @@
 export { MulticallDecoder } from './decoder';
-export { SignatureDecoder } from './signature-decoder';
-export { EtherscanClient, type ContractInfo } from './etherscan-client';
-export { Explainer } from './explainer';
-export type { MulticallCall, DecodedCall, DecoderOptions } from './types';
+export { SignatureDecoder, type SignatureDecoderOptions, type FunctionSignature } from './signature-decoder';
+export {
+  FourByteProvider,
+  OpenChainProvider,
+  LocalSignatureProvider,
+  createSignatureProviders,
+  type SignatureProvider,
+} from './signature-providers';
+export { rankSignatureCandidates, isAmbiguous, AMBIGUITY_MARGIN, type RankedCandidate } from './signature-ranking';
+export { toDecodedParams, formatDecodedParams, type ParamFormatOptions } from './decoded-params';
+export {
+  ValueFormatter,
+  RpcTokenMetadataProvider,
+  StaticTokenMetadataProvider,
+  type TokenMetadata,
+  type TokenMetadataProvider,
+  type ValueFormatterOptions,
+} from './value-formatter';
+export { CallDescriber, type CallDescriberOptions } from './call-describer';
+export { BUILTIN_DESCRIPTION_PACKS, type DescriptionPack } from './description-packs';
+export {
+  RiskAnalyzer,
+  BUILTIN_RISK_RULES,
+  RISK_SEVERITIES,
+  compareSeverity,
+  hasFindingsAtOrAbove,
+  type RiskRule,
+  type RiskConfig,
+  type RiskContext,
+  type RiskAnalyzerOptions,
+} from './risk-rules';
+export {
+  ErrorDecoder,
+  decodeErrorData,
+  toErrorSelector,
+  PANIC_CODES,
+  type DecodedError,
+  type ErrorKind,
+  type ErrorDecoderConfig,
+  type AbiError,
+} from './error-decoder';
+export { BUNDLED_SIGNATURES, BUNDLED_ERROR_SIGNATURES } from './signature-database';
+export { AbiRegistry, parseAbiArtifact } from './abi-registry';
+export {
+  DiskCache,
+  CACHE_NAMESPACES,
+  type CacheNamespace,
+  type CacheEntry,
+  type CacheStats,
+  type DiskCacheOptions,
+} from './disk-cache';
+export { readBatchRecords, parseBatchRecords, type BatchRecord, type BatchInputFormat } from './batch-input';
+export { EtherscanClient, type EtherscanConfig } from './etherscan-client';
+export { BlockscoutClient } from './blockscout-client';
+export { SourcifyClient, SOURCIFY_API_URL, type SourcifyConfig } from './sourcify-client';
+export {
+  HttpClient,
+  RateLimiter,
+  sharedRateLimiter,
+  isExplorerRateLimited,
+  type HttpClientOptions,
+  type RateLimiterOptions,
+} from './http-client';
+export { createContractSource, type ContractSource, type ContractSourceOptions, type ContractInfo } from './contract-source';
+export {
+  NetworkRegistry,
+  BUILTIN_NETWORKS,
+  NETWORK_CHAIN_IDS,
+  EXPLORER_KINDS,
+  ETHERSCAN_V2_API_URL,
+  toNetworkConfig,
+  type NetworkConfig,
+  type ExplorerKind,
+} from './networks';
+export { AddressBook, type AddressBookOptions, type AddressLabel, type LabelSource } from './address-book';
+export { KNOWN_ADDRESSES } from './known-addresses';
+export { Explainer, parseExplanation, type Explanation, type CallExplanation, type ExplainerOptions } from './explainer';
+export {
+  CliExplainerBackend,
+  HttpExplainerBackend,
+  TemplateExplainerBackend,
+  createExplainerBackend,
+  EXPLAINER_BACKEND_NAMES,
+  type ExplainerBackend,
+  type ExplainRequest,
+  type ExplainerBackendOptions,
+  type CliBackendOptions,
+  type HttpBackendOptions,
+} from './explainer-backends';
+export { toJsonOutput, toJson, type DecodeJsonOutput, type JsonOutputExtras } from './json-output';
+export { ProxyResolver, type ProxyInfo, type ProxyKind, type ProxyResolverConfig } from './proxy-resolver';
+export { RpcClient, RpcError, resolveRpcUrl, type RpcConfig, type CallRequest, type TransactionInfo } from './rpc-client';
+export {
+  CallSimulator,
+  parseBlockTag,
+  type CallSimulatorConfig,
+  type SimulationRequest,
+  type SimulationResult,
+} from './simulator';
+export {
+  MulticallEncoder,
+  parseBatchSpec,
+  ENCODE_FORMATS,
+  type EncodeFormat,
+  type CallSpec,
+  type BatchSpec,
+  type EncodedBatch,
+} from './encoder';
+export { parseMultiSendTransactions, encodeMultiSendTransactions, MULTISEND_ABI } from './multisend';
+export { UniversalRouterDecoder, decodeV3Path, UNIVERSAL_ROUTER_ABI } from './universal-router';
+export type { MulticallCall, DecodedCall, DecoderOptions, Network, CallOperation, CallResult, MulticallFormat, V3PathHop, SignatureCandidate, DecodedParam, RiskFinding, RiskSeverity } from './types';
@@ -0,0 +1,42 @@
+import type { Explanation } from './explainer';
+import type { SimulationResult } from './simulator';
+import type { DecodedCall } from './types';
+
+export interface JsonOutputExtras {
+  simulation?: SimulationResult;
+  explanation?: Explanation;
+}
+
+export interface DecodeJsonOutput {
+  calls: DecodedCall[];
+  simulation?: SimulationResult;
+  explanation?: Explanation;
+}
+
+/**
+ * JSON output of the decode commands (decode, decode-call, decode-result)
+ * The decoded calls as they are unless a simulation or an explanation was produced,
+ * then `{ calls, simulation, explanation }` with only the parts that were produced.
+ * @param calls Decoded calls, or the single call of decode-call
+ */
+export function toJsonOutput(calls: DecodedCall[] | DecodedCall, extras: JsonOutputExtras = {}): DecodedCall[] | DecodedCall | DecodeJsonOutput {
+  if (!extras.simulation && !extras.explanation) {
+    return calls;
+  }
+
+  const output: DecodeJsonOutput = { calls: Array.isArray(calls) ? calls : [calls] };
+  if (extras.simulation) {
+    output.simulation = extras.simulation;
+  }
+  if (extras.explanation) {
+    output.explanation = extras.explanation;
+  }
+  return output;
+}
+
+/**
+ * Serialize decoded output as JSON (bigints as decimal strings)
+ */
+export function toJson(value: unknown, indent: number = 2): string {
+  return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v, indent);
+}
@@ -0,0 +1,50 @@
+import type { Network } from './types';
+
+/**
+ * Well-known contracts, labeled out of the box
+ * Deterministic deployments shared by every chain are listed under `all`.
+ */
+export const KNOWN_ADDRESSES: Partial<Record<Network | 'all', Record<string, string>>> = {
+  all: {
+    '0x000000000022D473030F116dDEE9F6B43aC78BA3': 'Permit2',
+    '0xcA11bde05977b3631167028862bE2a173976CA11': 'Multicall3',
+    '0x1111111254EEB25477B68fb85Ed929f73A960582': '1inch Aggregation Router V5',
+    '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D': 'Safe MultiSendCallOnly 1.3.0',
+    '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761': 'Safe MultiSend 1.3.0',
+  },
+  mainnet: {
+    '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2': 'WETH',
+    '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': 'USDC',
+    '0xdAC17F958D2ee523a2206206994597C13D831ec7': 'USDT',
+    '0x6B175474E89094C44Da98b954EedeAC495271d0F': 'DAI',
+    '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599': 'WBTC',
+    '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D': 'Uniswap V2 Router 02',
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap V3 SwapRouter02',
+    '0xC36442b4a4522E871399CD717aBDD847Ab11FE88': 'Uniswap V3 Positions NFT',
+    '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD': 'Uniswap Universal Router',
+    '0xDef1C0ded9bec7F1a1670819833240f027b25EfF': '0x Exchange Proxy',
+    '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2': 'Aave V3 Pool',
+  },
+  arbitrum: {
+    '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1': 'WETH',
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap V3 SwapRouter02',
+    '0xC36442b4a4522E871399CD717aBDD847Ab11FE88': 'Uniswap V3 Positions NFT',
+  },
+  optimism: {
+    '0x4200000000000000000000000000000000000006': 'WETH',
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap V3 SwapRouter02',
+    '0xC36442b4a4522E871399CD717aBDD847Ab11FE88': 'Uniswap V3 Positions NFT',
+  },
+  base: {
+    '0x4200000000000000000000000000000000000006': 'WETH',
+  },
+  polygon: {
+    '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270': 'WMATIC',
+    '0xE592427A0AEce92De3Edee1F18E0157C05861564': 'Uniswap V3 SwapRouter',
+    '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45': 'Uniswap V3 SwapRouter02',
+    '0xC36442b4a4522E871399CD717aBDD847Ab11FE88': 'Uniswap V3 Positions NFT',
+  },
+};
@@ -0,0 +1,34 @@
+import { parseAbi } from 'viem';
+
+// Multicall3 aggregate3((address,bool,bytes)[])
+export const AGGREGATE3_ABI = parseAbi([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) external payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+// Multicall3 aggregate3Value((address,bool,uint256,bytes)[])
+export const AGGREGATE3_VALUE_ABI = parseAbi([
+  'function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) external payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+// Multicall2 aggregate((address,bytes)[])
+export const AGGREGATE_ABI = parseAbi([
+  'function aggregate((address target, bytes callData)[] calls) external returns (uint256 blockNumber, bytes[] returnData)',
+]);
+
+export const TRY_AGGREGATE_ABI = parseAbi([
+  'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) external returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+export const TRY_BLOCK_AND_AGGREGATE_ABI = parseAbi([
+  'function tryBlockAndAggregate(bool requireSuccess, (address target, bytes callData)[] calls) external returns (uint256 blockNumber, bytes32 blockHash, (bool success, bytes returnData)[] returnData)',
+]);
+
+export const BLOCK_AND_AGGREGATE_ABI = parseAbi([
+  'function blockAndAggregate((address target, bytes callData)[] calls) external payable returns (uint256 blockNumber, bytes32 blockHash, (bool success, bytes returnData)[] returnData)',
+]);
+
+// Router / position manager batches calling back into the same contract
+export const SELF_MULTICALL_ABI = parseAbi([
+  'function multicall(bytes[] data) external payable returns (bytes[] results)',
+  'function multicall(uint256 deadline, bytes[] data) external payable returns (bytes[] results)',
+]);
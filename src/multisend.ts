@@ -0,0 +1,77 @@
+import { concatHex, encodePacked, getAddress, hexToBigInt, parseAbi, size, type Hex } from 'viem';
+import type { MulticallCall } from './types';
+
+// Safe MultiSend / MultiSendCallOnly share the same entry point
+export const MULTISEND_ABI = parseAbi([
+  'function multiSend(bytes transactions) external payable',
+]);
+
+// operation (1) + to (20) + value (32) + dataLength (32)
+const HEADER_LENGTH = 85;
+
+/**
+ * Parse the packed `transactions` argument of a Safe `multiSend` call
+ * Each transaction is encoded as `operation|to|value|dataLength|data`
+ * @param transactions Packed transactions (hex string)
+ */
+export function parseMultiSendTransactions(transactions: string): MulticallCall[] {
+  const hex = transactions.startsWith('0x') ? transactions.slice(2) : transactions;
+  const bytesLength = hex.length / 2;
+  const calls: MulticallCall[] = [];
+
+  // Byte offset helpers over the hex string
+  const read = (offset: number, length: number) => hex.slice(offset * 2, (offset + length) * 2);
+
+  let offset = 0;
+  while (offset < bytesLength) {
+    if (offset + HEADER_LENGTH > bytesLength) {
+      throw new Error(`Malformed MultiSend data: truncated transaction header at byte ${offset}`);
+    }
+
+    const operationByte = parseInt(read(offset, 1), 16);
+    if (operationByte !== 0 && operationByte !== 1) {
+      throw new Error(`Malformed MultiSend data: invalid operation ${operationByte} at byte ${offset}`);
+    }
+
+    const to = getAddress(`0x${read(offset + 1, 20)}`);
+    const value = hexToBigInt(`0x${read(offset + 21, 32)}` as Hex);
+    const dataLength = Number(hexToBigInt(`0x${read(offset + 53, 32)}` as Hex));
+
+    const dataOffset = offset + HEADER_LENGTH;
+    if (dataOffset + dataLength > bytesLength) {
+      throw new Error(`Malformed MultiSend data: transaction data overflows at byte ${dataOffset}`);
+    }
+
+    calls.push({
+      target: to,
+      callData: `0x${read(dataOffset, dataLength)}`,
+      operation: operationByte === 1 ? 'delegatecall' : 'call',
+      value,
+    });
+
+    offset = dataOffset + dataLength;
+  }
+
+  return calls;
+}
+
+/**
+ * Pack transactions into the `transactions` argument of a Safe `multiSend` call
+ * @param calls Transactions (operation defaults to call, value to 0)
+ */
+export function encodeMultiSendTransactions(calls: MulticallCall[]): Hex {
+  return concatHex(
+    calls.map((call) =>
+      encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [
+          call.operation === 'delegatecall' ? 1 : 0,
+          call.target as Hex,
+          call.value ?? 0n,
+          BigInt(size(call.callData as Hex)),
+          call.callData as Hex,
+        ]
+      )
+    )
+  );
+}
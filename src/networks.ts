@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Network } from './types';
+
+export type ExplorerKind = 'etherscan' | 'blockscout' | 'sourcify';
+
+export const EXPLORER_KINDS: readonly ExplorerKind[] = ['etherscan', 'blockscout', 'sourcify'];
+
+export interface NetworkConfig {
+  name: Network;
+  chainId: number;
+  // Contract source API, e.g. https://api.etherscan.io/v2/api or https://eth.blockscout.com/api
+  explorerApiUrl?: string;
+  // Defaults to etherscan
+  explorerKind?: ExplorerKind;
+  // Environment variable holding the explorer API key
+  apiKeyEnv?: string;
+  // JSON-RPC endpoint, `<NAME>_RPC_URL` takes precedence
+  rpcUrl?: string;
+}
+
+export const ETHERSCAN_V2_API_URL = 'https://api.etherscan.io/v2/api';
+
+function etherscanNetwork(name: Network, chainId: number): NetworkConfig {
+  return { name, chainId, explorerApiUrl: ETHERSCAN_V2_API_URL, explorerKind: 'etherscan', apiKeyEnv: 'ETHERSCAN_API_KEY' };
+}
+
+/**
+ * Networks known out of the box, all served by the Etherscan V2 multichain API
+ */
+export const BUILTIN_NETWORKS: readonly NetworkConfig[] = [
+  etherscanNetwork('mainnet', 1),
+  etherscanNetwork('sepolia', 11155111),
+  etherscanNetwork('holesky', 17000),
+  etherscanNetwork('polygon', 137),
+  etherscanNetwork('arbitrum', 42161),
+  etherscanNetwork('optimism', 10),
+  etherscanNetwork('base', 8453),
+  etherscanNetwork('gnosis', 100),
+  etherscanNetwork('bsc', 56),
+  etherscanNetwork('linea', 59144),
+  etherscanNetwork('scroll', 534352),
+];
+
+/**
+ * Chain ids of the built-in networks
+ */
+export const NETWORK_CHAIN_IDS: Record<string, number> = Object.fromEntries(
+  BUILTIN_NETWORKS.map((network) => [network.name, network.chainId])
+);
+
+/**
+ * Networks by name and chain id: the built-in ones plus user-configured networks
+ */
+export class NetworkRegistry {
+  private networks: Map<string, NetworkConfig> = new Map();
+
+  constructor(networks: readonly NetworkConfig[] = BUILTIN_NETWORKS) {
+    for (const network of networks) {
+      this.register(network);
+    }
+  }
+
+  /**
+   * Default networks file location: $XDG_CONFIG_HOME/multicall-decoder/networks.json
+   * or ~/.config/multicall-decoder/networks.json
+   */
+  static defaultPath(): string {
+    const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(base, 'multicall-decoder', 'networks.json');
+  }
+
+  /**
+   * Load networks from a file mapping names to `{ chainId, explorerApiUrl, explorerKind, apiKeyEnv, rpcUrl }`
+   * Entries for a built-in network only need the fields they change.
+   * @returns Number of networks loaded
+   */
+  loadFile(filePath: string): number {
+    let json: any;
+    try {
+      json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to read networks ${filePath}: ${error.message}`);
+    }
+
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      throw new Error(`Networks ${filePath} must map network names to network objects`);
+    }
+
+    for (const [name, entry] of Object.entries<any>(json)) {
+      const base = this.networks.get(name.toLowerCase());
+      const network = { ...base, ...entry, name: name.toLowerCase() };
+      // Switching explorers drops the inherited API URL and API key variable
+      if (base && entry.explorerKind && entry.explorerKind !== base.explorerKind) {
+        if (!entry.explorerApiUrl) {
+          delete network.explorerApiUrl;
+        }
+        if (!entry.apiKeyEnv) {
+          delete network.apiKeyEnv;
+        }
+      }
+
+      if (!Number.isSafeInteger(network.chainId) || network.chainId <= 0) {
+        throw new Error(`Networks ${filePath}: ${name} needs a positive integer chainId`);
+      }
+      if (network.explorerKind !== undefined && !EXPLORER_KINDS.includes(network.explorerKind)) {
+        throw new Error(`Networks ${filePath}: invalid explorerKind "${network.explorerKind}" for ${name}`);
+      }
+
+      this.register(network);
+    }
+
+    return Object.keys(json).length;
+  }
+
+  /**
+   * Add or replace a network
+   */
+  register(network: NetworkConfig): void {
+    this.networks.set(network.name.toLowerCase(), network);
+  }
+
+  /**
+   * Get a network by name
+   */
+  get(name: string): NetworkConfig | undefined {
+    return this.networks.get(name.toLowerCase());
+  }
+
+  /**
+   * Get a network by chain id
+   */
+  getByChainId(chainId: number): NetworkConfig | undefined {
+    return this.list().find((network) => network.chainId === chainId);
+  }
+
+  /**
+   * Resolve a network by name or chain id
+   * Unknown chain ids fall back to the Etherscan V2 API, which serves most EVM chains by id.
+   */
+  resolve(nameOrChainId: string | number): NetworkConfig {
+    const chainId = typeof nameOrChainId === 'number' ? nameOrChainId : /^\d+$/.test(nameOrChainId) ? Number(nameOrChainId) : undefined;
+
+    if (chainId === undefined) {
+      const network = this.get(nameOrChainId as string);
+      if (!network) {
+        throw new Error(`Unknown network "${nameOrChainId}" (expected one of ${this.list().map((known) => known.name).join(', ')}, or a chain id)`);
+      }
+      return network;
+    }
+
+    return this.getByChainId(chainId) ?? etherscanNetwork(`chain-${chainId}`, chainId);
+  }
+
+  list(): NetworkConfig[] {
+    return [...this.networks.values()];
+  }
+}
+
+const defaultRegistry = new NetworkRegistry();
+
+/**
+ * Resolve a network given by name, chain id or config against the built-in networks
+ */
+export function toNetworkConfig(network: Network | NetworkConfig = 'mainnet'): NetworkConfig {
+  return typeof network === 'string' ? defaultRegistry.resolve(network) : network;
+}
@@ -0,0 +1,180 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  parseAbi,
+  zeroAddress,
+  type Hex,
+} from 'viem';
+import type { RpcClient } from './rpc-client';
+import type { ContractSource } from './contract-source';
+
+export type ProxyKind = 'eip1967' | 'eip1822' | 'beacon' | 'diamond' | 'explorer';
+
+export interface ProxyInfo {
+  kind: ProxyKind;
+  // Implementation contracts (several facets for a Diamond)
+  implementations: string[];
+  // Beacon the implementation was read from (beacon proxies only)
+  beacon?: string;
+}
+
+export interface ProxyResolverConfig {
+  // Used to read implementation slots; without it only the contract source is consulted
+  rpcClient?: RpcClient;
+  // Fallback for proxies whose implementation can't be read from storage
+  contractSource?: ContractSource;
+}
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+// bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+// keccak256('PROXIABLE')
+const EIP1822_PROXIABLE_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+
+const BEACON_ABI = parseAbi(['function implementation() view returns (address)']);
+
+// EIP-2535 DiamondLoupe
+const DIAMOND_LOUPE_ABI = parseAbi(['function facetAddresses() view returns (address[] facetAddresses_)']);
+
+/**
+ * Resolves the implementation contracts behind a proxy
+ * Storage slots are read through the RPC endpoint when there is one,
+ * the implementation reported by the contract source (Etherscan, Blockscout, Sourcify) is the fallback.
+ */
+export class ProxyResolver {
+  private rpcClient?: RpcClient;
+  private contractSource?: ContractSource;
+  private cache: Map<string, Promise<ProxyInfo | null>> = new Map();
+
+  constructor(config: ProxyResolverConfig = {}) {
+    this.rpcClient = config.rpcClient;
+    this.contractSource = config.contractSource;
+  }
+
+  /**
+   * Resolve the implementation(s) of a proxy
+   * @param address Contract address
+   * @returns Proxy details, or null when the contract isn't a (known) proxy
+   */
+  resolve(address: string): Promise<ProxyInfo | null> {
+    const normalizedAddress = address.toLowerCase();
+
+    if (!this.cache.has(normalizedAddress)) {
+      this.cache.set(normalizedAddress, this.resolveUncached(normalizedAddress));
+    }
+
+    return this.cache.get(normalizedAddress)!;
+  }
+
+  private async resolveUncached(address: string): Promise<ProxyInfo | null> {
+    if (this.rpcClient) {
+      try {
+        const proxy = await this.resolveFromChain(address);
+        if (proxy) {
+          return proxy;
+        }
+      } catch (error: any) {
+        console.error(`Failed to read proxy slots of ${address}: ${error.message}`);
+      }
+    }
+
+    const implementation = await this.contractSource?.getImplementationAddress(address);
+    if (implementation) {
+      return { kind: 'explorer', implementations: [implementation] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Read the standard proxy slots, then try the Diamond loupe
+   */
+  private async resolveFromChain(address: string): Promise<ProxyInfo | null> {
+    const [implementationSlot, beaconSlot, proxiableSlot] = await Promise.all([
+      this.readAddressSlot(address, EIP1967_IMPLEMENTATION_SLOT),
+      this.readAddressSlot(address, EIP1967_BEACON_SLOT),
+      this.readAddressSlot(address, EIP1822_PROXIABLE_SLOT),
+    ]);
+
+    if (implementationSlot) {
+      return { kind: 'eip1967', implementations: [implementationSlot] };
+    }
+
+    if (beaconSlot) {
+      const implementation = await this.callForAddress(beaconSlot, encodeFunctionData({ abi: BEACON_ABI }));
+      if (implementation) {
+        return { kind: 'beacon', implementations: [implementation], beacon: beaconSlot };
+      }
+    }
+
+    if (proxiableSlot) {
+      return { kind: 'eip1822', implementations: [proxiableSlot] };
+    }
+
+    const facets = await this.getDiamondFacets(address);
+    if (facets.length > 0) {
+      return { kind: 'diamond', implementations: facets };
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a storage slot holding an address, null when it is empty
+   */
+  private async readAddressSlot(address: string, slot: string): Promise<string | null> {
+    const value = await this.rpcClient!.getStorageAt(address, slot);
+    return toAddress(value);
+  }
+
+  /**
+   * eth_call a view function returning a single address
+   */
+  private async callForAddress(address: string, data: Hex): Promise<string | null> {
+    try {
+      const result = await this.rpcClient!.call({ to: address, data });
+      return toAddress(result);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Facet addresses of an EIP-2535 Diamond (empty for other contracts)
+   */
+  private async getDiamondFacets(address: string): Promise<string[]> {
+    try {
+      const result = await this.rpcClient!.call({
+        to: address,
+        data: encodeFunctionData({ abi: DIAMOND_LOUPE_ABI }),
+      });
+      if (!result || result === '0x') {
+        return [];
+      }
+
+      const facets = decodeFunctionResult({ abi: DIAMOND_LOUPE_ABI, data: result as Hex });
+      return facets.filter((facet) => facet !== zeroAddress).map((facet) => facet.toLowerCase());
+    } catch (error) {
+      // Not a Diamond: the loupe function doesn't exist or returned garbage
+      return [];
+    }
+  }
+}
+
+/**
+ * Extract the address from a 32-byte word, null for empty or non-address values
+ */
+function toAddress(word: string | null | undefined): string | null {
+  if (!word || !/^0x[0-9a-fA-F]{64}$/.test(word)) {
+    return null;
+  }
+
+  // Addresses are left-padded, anything in the upper 12 bytes means it's not an address
+  if (!/^0x0{24}/.test(word)) {
+    return null;
+  }
+
+  const address = `0x${word.slice(26)}`.toLowerCase();
+  return address === zeroAddress ? null : address;
+}
@@ -0,0 +1,368 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatEther, maxUint160, maxUint256 } from 'viem';
+import type { ContractInfo } from './contract-source';
+import type { RpcClient } from './rpc-client';
+import type { DecodedCall, DecodedParam, RiskFinding, RiskSeverity } from './types';
+
+export const RISK_SEVERITIES: RiskSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+/**
+ * User configuration of the risk rules
+ */
+export interface RiskConfig {
+  // Approvals, operator approvals and permits to these spenders are not reported
+  allowedSpenders?: string[];
+  // ETH sent to these accounts is not reported
+  allowedRecipients?: string[];
+  // Severity per rule id, `off` disables the rule
+  severity?: Record<string, RiskSeverity | 'off'>;
+}
+
+/**
+ * What rules can look up about the accounts a batch touches
+ */
+export interface RiskContext {
+  isAllowedSpender(address: string): boolean;
+  isAllowedRecipient(address: string): boolean;
+  // Resolves to undefined when there is no RPC endpoint to ask
+  isContract(address: string): Promise<boolean | undefined>;
+  // undefined when the explorer wasn't consulted (e.g. offline)
+  isVerified(address: string): boolean | undefined;
+}
+
+export interface RiskRule {
+  id: string;
+  description: string;
+  severity: RiskSeverity;
+  // Returns the finding's message when the call triggers the rule
+  check(call: DecodedCall, context: RiskContext): Promise<string | null> | string | null;
+}
+
+// Spender and amount positions of allowance-granting functions, with the amount type's maximum
+const APPROVAL_FUNCTIONS: Record<string, { spender: number; amount: number; max: bigint }> = {
+  'approve(address,uint256)': { spender: 0, amount: 1, max: maxUint256 },
+  'increaseAllowance(address,uint256)': { spender: 0, amount: 1, max: maxUint256 },
+  // Permit2 allowance
+  'approve(address,address,uint160,uint48)': { spender: 1, amount: 2, max: maxUint160 },
+};
+
+const PERMIT_FUNCTIONS = new Set([
+  'permit',
+  'permitBatch',
+  'permitTransferFrom',
+  'permitBatchTransferFrom',
+  'permitWitnessTransferFrom',
+  'PERMIT2_PERMIT',
+  'PERMIT2_PERMIT_BATCH',
+]);
+
+const OWNERSHIP_FUNCTIONS = new Set([
+  'transferOwnership',
+  'renounceOwnership',
+  'acceptOwnership',
+  'setOwner',
+  'changeOwner',
+  'grantRole',
+  'revokeRole',
+  'renounceRole',
+  'changeAdmin',
+  'setAdmin',
+  // Safe owners, threshold, modules and guard
+  'addOwnerWithThreshold',
+  'removeOwner',
+  'swapOwner',
+  'changeThreshold',
+  'enableModule',
+  'disableModule',
+  'setGuard',
+  'setFallbackHandler',
+]);
+
+const UPGRADE_FUNCTIONS = new Set([
+  'upgradeTo',
+  'upgradeToAndCall',
+  'upgrade',
+  'upgradeAndCall',
+  'upgradeBeaconToAndCall',
+  'setImplementation',
+  'changeMasterCopy',
+  'diamondCut',
+]);
+
+/**
+ * Built-in rules, in reporting order
+ */
+export const BUILTIN_RISK_RULES: RiskRule[] = [
+  {
+    id: 'unlimited-approval',
+    description: 'approve / increaseAllowance / Permit2 approve of an unlimited amount',
+    severity: 'high',
+    check(call, context) {
+      const approval = APPROVAL_FUNCTIONS[call.functionSignature];
+      if (!approval) {
+        return null;
+      }
+      const spender = String(call.args[approval.spender]);
+      const amount = toBigInt(call.args[approval.amount]);
+      // Half the type's range is as good as unlimited (e.g. 2^255)
+      if (amount === undefined || amount < approval.max / 2n || context.isAllowedSpender(spender)) {
+        return null;
+      }
+      return `Unlimited ${call.functionName} of ${call.target} to ${spender}`;
+    },
+  },
+  {
+    id: 'approval-for-all',
+    description: 'setApprovalForAll(operator, true) on an NFT collection',
+    severity: 'high',
+    check(call, context) {
+      if (call.functionSignature !== 'setApprovalForAll(address,bool)' || call.args[1] !== true) {
+        return null;
+      }
+      const operator = String(call.args[0]);
+      return context.isAllowedSpender(operator) ? null : `${operator} may transfer every token of ${call.target}`;
+    },
+  },
+  {
+    id: 'permit',
+    description: 'EIP-2612, DAI or Permit2 signatures granting an allowance',
+    severity: 'medium',
+    check(call, context) {
+      if (!PERMIT_FUNCTIONS.has(call.functionName)) {
+        return null;
+      }
+      // EIP-2612 and DAI permits take (owner, spender, ...)
+      const spender = findParam(call.params || [], 'spender')?.value ?? (call.args.length >= 7 ? call.args[1] : undefined);
+      if (typeof spender === 'string' && context.isAllowedSpender(spender)) {
+        return null;
+      }
+      return `${call.functionName} signature grants ${spender ?? 'a spender'} access to tokens`;
+    },
+  },
+  {
+    id: 'ownership-change',
+    description: 'Ownership, role, admin or Safe owner/module changes',
+    severity: 'high',
+    check(call) {
+      if (!OWNERSHIP_FUNCTIONS.has(call.functionName)) {
+        return null;
+      }
+      const account = call.args.find((arg) => typeof arg === 'string' && /^0x[0-9a-fA-F]{40}$/.test(arg));
+      return `${call.functionName} changes who controls ${call.target}${account ? ` (${account})` : ''}`;
+    },
+  },
+  {
+    id: 'proxy-upgrade',
+    description: 'Proxy implementation upgrades and Diamond cuts',
+    severity: 'critical',
+    check(call) {
+      return UPGRADE_FUNCTIONS.has(call.functionName)
+        ? `${call.functionName} replaces the code behind ${call.target}`
+        : null;
+    },
+  },
+  {
+    id: 'delegatecall',
+    description: 'Calls made with DELEGATECALL',
+    severity: 'high',
+    check(call) {
+      return call.operation === 'delegatecall'
+        ? `Delegatecall to ${call.target} runs its code with the caller's storage and funds`
+        : null;
+    },
+  },
+  {
+    id: 'eth-to-eoa',
+    description: 'ETH sent to an account without code',
+    severity: 'medium',
+    async check(call, context) {
+      if (!call.value || call.value === 0n || context.isAllowedRecipient(call.target)) {
+        return null;
+      }
+      return (await context.isContract(call.target)) === false
+        ? `Sends ${formatEther(call.value)} ETH to ${call.target}, an account without code`
+        : null;
+    },
+  },
+  {
+    id: 'unverified-contract',
+    description: 'Calls to contracts without verified source code',
+    severity: 'medium',
+    async check(call, context) {
+      if (call.rawCallData === '0x' || context.isVerified(call.target) !== false) {
+        return null;
+      }
+      return (await context.isContract(call.target)) === false
+        ? null
+        : `${call.target} has no verified source code`;
+    },
+  },
+];
+
+export interface RiskAnalyzerOptions {
+  config?: RiskConfig;
+  // Defaults to the built-in rules
+  rules?: RiskRule[];
+  // Used to tell contracts from EOAs
+  rpcClient?: RpcClient;
+  // Explorer info of the targets, keyed by lowercase address
+  contractInfo?: Map<string, ContractInfo>;
+}
+
+/**
+ * Runs risk rules over decoded calls
+ */
+export class RiskAnalyzer {
+  private rules: RiskRule[];
+  private severity: Record<string, RiskSeverity | 'off'>;
+  private allowedSpenders: Set<string>;
+  private allowedRecipients: Set<string>;
+  private rpcClient?: RpcClient;
+  private contractInfo: Map<string, ContractInfo>;
+  private codeCache: Map<string, Promise<boolean | undefined>> = new Map();
+
+  constructor(options: RiskAnalyzerOptions = {}) {
+    const config = options.config || {};
+    this.rules = options.rules || BUILTIN_RISK_RULES;
+    this.severity = config.severity || {};
+    this.allowedSpenders = new Set((config.allowedSpenders || []).map((address) => address.toLowerCase()));
+    this.allowedRecipients = new Set((config.allowedRecipients || []).map((address) => address.toLowerCase()));
+    this.rpcClient = options.rpcClient;
+    this.contractInfo = options.contractInfo || new Map();
+  }
+
+  /**
+   * Default rules configuration: $XDG_CONFIG_HOME/multicall-decoder/risk-rules.json
+   * or ~/.config/multicall-decoder/risk-rules.json
+   */
+  static defaultPath(): string {
+    const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(base, 'multicall-decoder', 'risk-rules.json');
+  }
+
+  /**
+   * Load a rules configuration file
+   */
+  static loadConfig(filePath: string): RiskConfig {
+    let json: any;
+    try {
+      json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Failed to read risk rules ${filePath}: ${error.message}`);
+    }
+
+    for (const key of ['allowedSpenders', 'allowedRecipients'] as const) {
+      if (json[key] !== undefined && !(Array.isArray(json[key]) && json[key].every((item: unknown) => typeof item === 'string'))) {
+        throw new Error(`Risk rules ${filePath}: ${key} must be a list of addresses`);
+      }
+    }
+    for (const [rule, severity] of Object.entries(json.severity || {})) {
+      if (severity !== 'off' && !RISK_SEVERITIES.includes(severity as RiskSeverity)) {
+        throw new Error(`Risk rules ${filePath}: invalid severity "${severity}" for ${rule}`);
+      }
+    }
+
+    return json;
+  }
+
+  /**
+   * Run the rules over calls and their nested calls
+   * Findings are attached to each call (`risks`) and returned in call order.
+   */
+  async analyze(calls: DecodedCall[], prefix: string = ''): Promise<RiskFinding[]> {
+    const context = this.createContext();
+    const findings: RiskFinding[] = [];
+
+    for (const [index, call] of calls.entries()) {
+      const label = `${prefix}${index + 1}`;
+      const callFindings: RiskFinding[] = [];
+
+      for (const rule of this.rules) {
+        const severity = this.severity[rule.id] ?? rule.severity;
+        if (severity === 'off') {
+          continue;
+        }
+
+        const message = await rule.check(call, context);
+        if (message) {
+          callFindings.push({ rule: rule.id, severity, message, call: label, target: call.target });
+        }
+      }
+
+      if (callFindings.length > 0) {
+        call.risks = callFindings;
+      }
+      findings.push(...callFindings, ...(await this.analyze(call.children || [], `${label}.`)));
+    }
+
+    return findings;
+  }
+
+  private createContext(): RiskContext {
+    return {
+      isAllowedSpender: (address) => this.allowedSpenders.has(address.toLowerCase()),
+      isAllowedRecipient: (address) => this.allowedRecipients.has(address.toLowerCase()),
+      isContract: (address) => this.isContract(address),
+      isVerified: (address) => this.contractInfo.get(address.toLowerCase())?.isVerified,
+    };
+  }
+
+  private isContract(address: string): Promise<boolean | undefined> {
+    const normalizedAddress = address.toLowerCase();
+
+    if (!this.codeCache.has(normalizedAddress)) {
+      this.codeCache.set(normalizedAddress, this.fetchIsContract(normalizedAddress));
+    }
+
+    return this.codeCache.get(normalizedAddress)!;
+  }
+
+  private async fetchIsContract(address: string): Promise<boolean | undefined> {
+    if (!this.rpcClient) {
+      return undefined;
+    }
+
+    try {
+      return (await this.rpcClient.getCode(address)) !== '0x';
+    } catch (error: any) {
+      console.error(`Failed to read code of ${address}:`, error.message);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Order two severities, negative when `a` is less severe than `b`
+ */
+export function compareSeverity(a: RiskSeverity, b: RiskSeverity): number {
+  return RISK_SEVERITIES.indexOf(a) - RISK_SEVERITIES.indexOf(b);
+}
+
+/**
+ * Whether any finding is at or above a severity
+ */
+export function hasFindingsAtOrAbove(findings: RiskFinding[], severity: RiskSeverity): boolean {
+  return findings.some((finding) => compareSeverity(finding.severity, severity) >= 0);
+}
+
+/**
+ * Find a param by name in a tree of decoded params (struct fields included)
+ */
+function findParam(params: DecodedParam[], name: string): DecodedParam | undefined {
+  for (const param of params) {
+    if (param.name === name && !param.components) {
+      return param;
+    }
+    const nested = param.components ? findParam(param.components, name) : undefined;
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+function toBigInt(value: unknown): bigint | undefined {
+  return typeof value === 'bigint' || typeof value === 'number' ? BigInt(value) : undefined;
+}
@@ -0,0 +1,169 @@
+import axios from 'axios';
+import { toNetworkConfig, type NetworkConfig } from './networks';
+import type { Network } from './types';
+
+export interface RpcConfig {
+  rpcUrl: string;
+  timeout?: number;
+}
+
+export interface TransactionInfo {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: bigint;
+  input: string;
+  blockNumber?: bigint;
+}
+
+export interface CallRequest {
+  to: string;
+  data: string;
+  from?: string;
+  value?: bigint;
+}
+
+/**
+ * Error response of a JSON-RPC request
+ * Reverted calls carry the revert data in `data`.
+ */
+export class RpcError extends Error {
+  code: number;
+  data?: string;
+
+  constructor(message: string, code: number, data?: string) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Minimal JSON-RPC client for Ethereum nodes (works with anvil, geth, hosted endpoints)
+ */
+export class RpcClient {
+  private rpcUrl: string;
+  private timeout: number;
+  private requestId: number = 0;
+
+  constructor(config: RpcConfig) {
+    this.rpcUrl = config.rpcUrl;
+    this.timeout = config.timeout ?? 10000;
+  }
+
+  /**
+   * Send a JSON-RPC request
+   * @param method RPC method name
+   * @param params RPC method parameters
+   */
+  async request<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    let response;
+    try {
+      response = await axios.post(
+        this.rpcUrl,
+        {
+          jsonrpc: '2.0',
+          id: ++this.requestId,
+          method,
+          params,
+        },
+        { timeout: this.timeout }
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to reach RPC endpoint ${this.rpcUrl}: ${error.message}`);
+    }
+
+    if (response.data.error) {
+      const { code, message, data } = response.data.error;
+      // Nodes return revert data either directly or wrapped in an object
+      const revertData = typeof data === 'string' ? data : typeof data?.data === 'string' ? data.data : undefined;
+      throw new RpcError(`RPC error ${code} from ${method}: ${message}`, code, revertData);
+    }
+
+    return response.data.result as T;
+  }
+
+  /**
+   * Fetch a transaction by hash
+   * @param hash Transaction hash
+   */
+  async getTransaction(hash: string): Promise<TransactionInfo | null> {
+    const result = await this.request<any>('eth_getTransactionByHash', [hash]);
+
+    if (!result) {
+      return null;
+    }
+
+    return {
+      hash: result.hash,
+      from: result.from,
+      to: result.to ?? null,
+      value: BigInt(result.value ?? '0x0'),
+      // Some nodes still return the legacy `data` field
+      input: result.input ?? result.data ?? '0x',
+      blockNumber: result.blockNumber ? BigInt(result.blockNumber) : undefined,
+    };
+  }
+
+  /**
+   * Read a storage slot of a contract
+   * @param address Contract address
+   * @param slot Storage slot (32-byte hex)
+   * @param block Block number or tag
+   */
+  async getStorageAt(address: string, slot: string, block: string = 'latest'): Promise<string | null> {
+    return this.request<string | null>('eth_getStorageAt', [address, slot, block]);
+  }
+
+  /**
+   * Get the code deployed at an address ('0x' for EOAs)
+   * @param address Account address
+   * @param block Block number or tag
+   */
+  async getCode(address: string, block: string = 'latest'): Promise<string> {
+    return (await this.request<string | null>('eth_getCode', [address, block])) ?? '0x';
+  }
+
+  /**
+   * Execute a read-only call
+   * @param call Call target and data
+   * @param block Block number or tag
+   */
+  async call(call: CallRequest, block: string = 'latest'): Promise<string | null> {
+    return this.request<string | null>('eth_call', [toCallParams(call), block]);
+  }
+
+  /**
+   * Estimate the gas a call needs as a transaction (including the intrinsic cost)
+   * @param call Call target and data
+   * @param block Block number or tag
+   */
+  async estimateGas(call: CallRequest, block: string = 'latest'): Promise<bigint> {
+    return BigInt(await this.request<string>('eth_estimateGas', [toCallParams(call), block]));
+  }
+}
+
+function toCallParams(call: CallRequest): Record<string, string> {
+  const params: Record<string, string> = { to: call.to, data: call.data };
+  if (call.from) {
+    params.from = call.from;
+  }
+  if (call.value !== undefined) {
+    params.value = `0x${call.value.toString(16)}`;
+  }
+  return params;
+}
+
+/**
+ * Resolve the RPC URL for a network
+ * An explicit URL wins, then `<NETWORK>_RPC_URL` (e.g. `MAINNET_RPC_URL`), then the network's
+ * configured `rpcUrl`, then `RPC_URL`.
+ * @param network Network name, chain id or config
+ * @param rpcUrl Explicitly configured RPC URL
+ */
+export function resolveRpcUrl(network: Network | NetworkConfig = 'mainnet', rpcUrl?: string): string | undefined {
+  const config = toNetworkConfig(network);
+  const envName = `${config.name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_RPC_URL`;
+  return rpcUrl || process.env[envName] || config.rpcUrl || process.env.RPC_URL || undefined;
+}
@@ -0,0 +1,179 @@
+/**
+ * Bundled function signatures for offline decoding
+ * Canonical text signatures; selectors are derived when the database is loaded.
+ */
+export const BUNDLED_SIGNATURES: readonly string[] = [
+  // ERC20
+  'transfer(address,uint256)',
+  'transferFrom(address,address,uint256)',
+  'approve(address,uint256)',
+  'increaseAllowance(address,uint256)',
+  'decreaseAllowance(address,uint256)',
+  'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)',
+  'permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)',
+  'balanceOf(address)',
+  'allowance(address,address)',
+  'totalSupply()',
+  'decimals()',
+  'symbol()',
+  'name()',
+  'mint(address,uint256)',
+  'burn(uint256)',
+  'burnFrom(address,uint256)',
+
+  // WETH
+  'deposit()',
+  'withdraw(uint256)',
+
+  // ERC721
+  'safeTransferFrom(address,address,uint256)',
+  'safeTransferFrom(address,address,uint256,bytes)',
+  'setApprovalForAll(address,bool)',
+  'ownerOf(uint256)',
+  'getApproved(uint256)',
+  'isApprovedForAll(address,address)',
+  'tokenURI(uint256)',
+
+  // ERC1155
+  'safeTransferFrom(address,address,uint256,uint256,bytes)',
+  'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)',
+  'balanceOf(address,uint256)',
+  'balanceOfBatch(address[],uint256[])',
+  'uri(uint256)',
+
+  // Ownership, access control, upgrades
+  'owner()',
+  'transferOwnership(address)',
+  'renounceOwnership()',
+  'acceptOwnership()',
+  'grantRole(bytes32,address)',
+  'revokeRole(bytes32,address)',
+  'renounceRole(bytes32,address)',
+  'upgradeTo(address)',
+  'upgradeToAndCall(address,bytes)',
+  'changeAdmin(address)',
+  'pause()',
+  'unpause()',
+
+  // Uniswap V2 router
+  'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
+  'swapTokensForExactTokens(uint256,uint256,address[],address,uint256)',
+  'swapExactETHForTokens(uint256,address[],address,uint256)',
+  'swapTokensForExactETH(uint256,uint256,address[],address,uint256)',
+  'swapExactTokensForETH(uint256,uint256,address[],address,uint256)',
+  'swapETHForExactTokens(uint256,address[],address,uint256)',
+  'swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)',
+  'swapExactETHForTokensSupportingFeeOnTransferTokens(uint256,address[],address,uint256)',
+  'swapExactTokensForETHSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)',
+  'addLiquidity(address,address,uint256,uint256,uint256,uint256,address,uint256)',
+  'addLiquidityETH(address,uint256,uint256,uint256,address,uint256)',
+  'removeLiquidity(address,address,uint256,uint256,uint256,address,uint256)',
+  'removeLiquidityETH(address,uint256,uint256,uint256,address,uint256)',
+  'swap(uint256,uint256,address,bytes)',
+
+  // Uniswap V3 SwapRouter / SwapRouter02
+  'exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))',
+  'exactInput((bytes,address,uint256,uint256,uint256))',
+  'exactOutputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))',
+  'exactOutput((bytes,address,uint256,uint256,uint256))',
+  'exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))',
+  'exactInput((bytes,address,uint256,uint256))',
+  'exactOutputSingle((address,address,uint24,address,uint256,uint256,uint160))',
+  'exactOutput((bytes,address,uint256,uint256))',
+  'unwrapWETH9(uint256,address)',
+  'unwrapWETH9(uint256)',
+  'refundETH()',
+  'sweepToken(address,uint256,address)',
+  'selfPermit(address,uint256,uint256,uint8,bytes32,bytes32)',
+  'multicall(bytes[])',
+  'multicall(uint256,bytes[])',
+
+  // Uniswap V3 NonfungiblePositionManager
+  'mint((address,address,uint24,int24,int24,uint256,uint256,uint256,uint256,address,uint256))',
+  'increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))',
+  'decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))',
+  'collect((uint256,address,uint128,uint128))',
+
+  // Uniswap Universal Router
+  'execute(bytes,bytes[])',
+  'execute(bytes,bytes[],uint256)',
+
+  // Permit2
+  'approve(address,address,uint160,uint48)',
+  'permit(address,((address,uint160,uint48,uint48),address,uint256),bytes)',
+  'permit(address,((address,uint160,uint48,uint48)[],address,uint256),bytes)',
+  'transferFrom(address,address,uint160,address)',
+  'lockdown((address,address)[])',
+  'invalidateNonces(address,address,uint48)',
+
+  // Aave V2 / V3 pool and WETH gateway
+  'supply(address,uint256,address,uint16)',
+  'deposit(address,uint256,address,uint16)',
+  'withdraw(address,uint256,address)',
+  'borrow(address,uint256,uint256,uint16,address)',
+  'repay(address,uint256,uint256,address)',
+  'repayWithATokens(address,uint256,uint256)',
+  'setUserUseReserveAsCollateral(address,bool)',
+  'setUserEMode(uint8)',
+  'liquidationCall(address,address,address,uint256,bool)',
+  'flashLoan(address,address[],uint256[],uint256[],address,bytes,uint16)',
+  'flashLoanSimple(address,address,uint256,bytes,uint16)',
+  'depositETH(address,address,uint16)',
+  'withdrawETH(address,uint256,address)',
+
+  // Compound (cTokens and Comet)
+  'mint(uint256)',
+  'redeem(uint256)',
+  'redeemUnderlying(uint256)',
+  'borrow(uint256)',
+  'repayBorrow(uint256)',
+  'supply(address,uint256)',
+  'withdraw(address,uint256)',
+
+  // Safe
+  'execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)',
+  'execTransactionFromModule(address,uint256,bytes,uint8)',
+  'addOwnerWithThreshold(address,uint256)',
+  'removeOwner(address,address,uint256)',
+  'swapOwner(address,address,address)',
+  'changeThreshold(uint256)',
+  'enableModule(address)',
+  'disableModule(address,address)',
+  'setGuard(address)',
+  'setFallbackHandler(address)',
+  'approveHash(bytes32)',
+  'multiSend(bytes)',
+
+  // Multicall
+  'aggregate((address,bytes)[])',
+  'aggregate3((address,bool,bytes)[])',
+  'aggregate3Value((address,bool,uint256,bytes)[])',
+  'tryAggregate(bool,(address,bytes)[])',
+  'tryBlockAndAggregate(bool,(address,bytes)[])',
+  'blockAndAggregate((address,bytes)[])',
+  'getEthBalance(address)',
+  'getBlockNumber()',
+  'getCurrentBlockTimestamp()',
+];
+
+/**
+ * Bundled custom error signatures for decoding reverts offline
+ * Kept apart from the function signatures so calldata never decodes as an error.
+ */
+export const BUNDLED_ERROR_SIGNATURES: readonly string[] = [
+  'ERC20InsufficientBalance(address,uint256,uint256)',
+  'ERC20InsufficientAllowance(address,uint256,uint256)',
+  'ERC721NonexistentToken(uint256)',
+  'ERC721InsufficientApproval(address,uint256)',
+  'OwnableUnauthorizedAccount(address)',
+  'AccessControlUnauthorizedAccount(address,bytes32)',
+  'SafeERC20FailedOperation(address)',
+  'AllowanceExpired(uint256)',
+  'InsufficientAllowance(uint256)',
+  'SignatureExpired(uint256)',
+  'InvalidNonce()',
+  'TransactionDeadlinePassed()',
+  'V2TooLittleReceived()',
+  'V3TooLittleReceived()',
+  'ExecutionFailed(uint256,bytes)',
+];
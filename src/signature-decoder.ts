@@ -1,20 +1,42 @@
-import axios from 'axios';
 import { keccak256, toHex } from 'viem';
+import {
+  createSignatureProviders,
+  type FunctionSignature,
+  type SignatureProvider,
+} from './signature-providers';
+import type { DiskCache } from './disk-cache';
 
-export interface FunctionSignature {
-  name: string;
-  signature: string;
+export type { FunctionSignature } from './signature-providers';
+
+export interface SignatureDecoderOptions {
+  // Providers in query order (defaults to local, 4byte, openchain)
+  providers?: SignatureProvider[];
+  // Only query providers that work without network access
+  offline?: boolean;
+  // Persistent cache shared across runs
+  cache?: DiskCache;
+  verbose?: boolean;
 }
 
 /**
- * Decodes function signatures using the 4byte directory
+ * Decodes function signatures by querying signature providers in order
  */
 export class SignatureDecoder {
   private cache: Map<string, FunctionSignature[]> = new Map();
-  private readonly FOUR_BYTE_API = 'https://www.4byte.directory/api/v1/signatures/';
+  private providers: SignatureProvider[];
+  private diskCache?: DiskCache;
+  private verbose: boolean;
+
+  constructor(options: SignatureDecoderOptions = {}) {
+    const providers = options.providers || createSignatureProviders(['local', '4byte', 'openchain']);
+    this.providers = options.offline ? providers.filter((provider) => provider.local) : providers;
+    this.diskCache = options.cache;
+    this.verbose = options.verbose || false;
+  }
 
   /**
-   * Lookup function signature from 4byte directory
+   * Lookup function signatures for a selector
+   * Results of all providers are merged in provider order, without duplicates.
    * @param selector The 4-byte function selector (e.g., "0x12345678")
    */
   async lookupSelector(selector: string): Promise<FunctionSignature[]> {
@@ -28,29 +50,48 @@ export class SignatureDecoder {
       return this.cache.get(normalizedSelector)!;
     }
 
-    try {
-      const response = await axios.get(this.FOUR_BYTE_API, {
-        params: {
-          hex_signature: normalizedSelector,
-        },
-        timeout: 10000,
-      });
+    const cached = this.diskCache?.get<FunctionSignature[]>('selector', normalizedSelector);
+    if (cached !== undefined) {
+      const signatures = cached || [];
+      this.cache.set(normalizedSelector, signatures);
+      return signatures;
+    }
 
-      if (response.data && response.data.results) {
-        const signatures: FunctionSignature[] = response.data.results.map((result: any) => ({
-          name: result.text_signature.split('(')[0],
-          signature: result.text_signature,
-        }));
+    const signatures: FunctionSignature[] = [];
+    let complete = true;
 
-        this.cache.set(normalizedSelector, signatures);
-        return signatures;
+    for (const provider of this.providers) {
+      try {
+        const results = await provider.lookupSelector(normalizedSelector);
+        for (const result of results) {
+          if (!signatures.some((existing) => existing.signature === result.signature)) {
+            signatures.push(result);
+          }
+        }
+      } catch (error: any) {
+        complete = false;
+        if (this.verbose) {
+          console.error(`Signature provider ${provider.name} failed for ${normalizedSelector}: ${error.message}`);
+        }
       }
+    }
 
-      return [];
-    } catch (error) {
-      console.error(`Failed to lookup selector ${normalizedSelector}:`, error);
-      return [];
+    // Don't cache partial results so a flaky provider gets another chance
+    if (complete) {
+      this.cache.set(normalizedSelector, signatures);
     }
+
+    // Local-only results stay out of the shared cache so they don't shadow remote lookups
+    const queriedRemote = this.providers.some((provider) => !provider.local);
+    if (complete && queriedRemote && this.diskCache) {
+      if (signatures.length > 0) {
+        this.diskCache.set('selector', normalizedSelector, signatures);
+      } else {
+        this.diskCache.setNegative('selector', normalizedSelector);
+      }
+    }
+
+    return signatures;
   }
 
   /**
@@ -0,0 +1,141 @@
+import { HttpClient, sharedRateLimiter } from './http-client';
+import { keccak256, toHex } from 'viem';
+import { BUNDLED_SIGNATURES } from './signature-database';
+
+export interface FunctionSignature {
+  name: string;
+  signature: string;
+  // Name of the provider the signature came from
+  source?: string;
+  // 4byte directory id, lower ids were registered earlier
+  id?: number;
+  createdAt?: string;
+}
+
+/**
+ * A source of function signatures for 4-byte selectors
+ */
+export interface SignatureProvider {
+  readonly name: string;
+  // Local providers work without network access
+  readonly local: boolean;
+  lookupSelector(selector: string): Promise<FunctionSignature[]>;
+}
+
+/**
+ * Build a function signature entry from a text signature
+ */
+function toFunctionSignature(signature: string, source: string): FunctionSignature {
+  return {
+    name: signature.split('(')[0],
+    signature,
+    source,
+  };
+}
+
+/**
+ * Signatures from the 4byte directory
+ */
+export class FourByteProvider implements SignatureProvider {
+  readonly name = '4byte';
+  readonly local = false;
+  private readonly FOUR_BYTE_API = 'https://www.4byte.directory/api/v1/signatures/';
+  private http = new HttpClient({ rateLimiter: sharedRateLimiter(this.FOUR_BYTE_API, { requestsPerSecond: 5, burst: 5 }) });
+
+  async lookupSelector(selector: string): Promise<FunctionSignature[]> {
+    const data = await this.http.get(this.FOUR_BYTE_API, {
+      hex_signature: selector,
+    });
+
+    if (data && data.results) {
+      return data.results.map((result: any) => ({
+        ...toFunctionSignature(result.text_signature, this.name),
+        id: result.id,
+        createdAt: result.created_at,
+      }));
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Signatures from an OpenChain-compatible signature database
+ */
+export class OpenChainProvider implements SignatureProvider {
+  readonly name = 'openchain';
+  readonly local = false;
+  private apiUrl: string;
+  private http: HttpClient;
+
+  constructor(apiUrl: string = 'https://api.openchain.xyz/signature-database/v1/lookup') {
+    this.apiUrl = apiUrl;
+    this.http = new HttpClient({ rateLimiter: sharedRateLimiter(apiUrl, { requestsPerSecond: 5, burst: 5 }) });
+  }
+
+  async lookupSelector(selector: string): Promise<FunctionSignature[]> {
+    const data = await this.http.get(this.apiUrl, {
+      function: selector,
+      filter: true,
+    });
+
+    const results = data?.result?.function?.[selector];
+    if (Array.isArray(results)) {
+      return results.map((result: any) => toFunctionSignature(result.name, this.name));
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Signatures bundled with the package, plus any registered at runtime
+ */
+export class LocalSignatureProvider implements SignatureProvider {
+  readonly name = 'local';
+  readonly local = true;
+  private signatures: Map<string, FunctionSignature[]> = new Map();
+
+  constructor(signatures: readonly string[] = BUNDLED_SIGNATURES) {
+    this.addSignatures(signatures);
+  }
+
+  /**
+   * Register additional text signatures (e.g. "transfer(address,uint256)")
+   */
+  addSignatures(signatures: readonly string[]): void {
+    for (const signature of signatures) {
+      const selector = keccak256(toHex(signature)).slice(0, 10);
+      const existing = this.signatures.get(selector) || [];
+      if (!existing.some((entry) => entry.signature === signature)) {
+        existing.push(toFunctionSignature(signature, this.name));
+        this.signatures.set(selector, existing);
+      }
+    }
+  }
+
+  async lookupSelector(selector: string): Promise<FunctionSignature[]> {
+    return this.signatures.get(selector) || [];
+  }
+}
+
+export const SIGNATURE_PROVIDER_NAMES = ['local', '4byte', 'openchain'] as const;
+
+/**
+ * Create signature providers by name, in the given order
+ * @param names Provider names (local, 4byte, openchain)
+ */
+export function createSignatureProviders(names: readonly string[]): SignatureProvider[] {
+  return names.map((name) => {
+    switch (name) {
+      case 'local':
+        return new LocalSignatureProvider();
+      case '4byte':
+        return new FourByteProvider();
+      case 'openchain':
+        return new OpenChainProvider();
+      default:
+        throw new Error(`Unknown signature provider "${name}" (expected one of ${SIGNATURE_PROVIDER_NAMES.join(', ')})`);
+    }
+  });
+}
@@ -0,0 +1,130 @@
+import {
+  decodeFunctionData,
+  encodeFunctionData,
+  parseAbiItem,
+  toFunctionSignature,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+} from 'viem';
+import type { FunctionSignature } from './signature-providers';
+import type { SignatureCandidate } from './types';
+
+export interface RankedCandidate extends SignatureCandidate {
+  abiItem: AbiFunction;
+}
+
+// Weights of the confidence factors, they add up to 1
+const ROUND_TRIP_WEIGHT = 0.4;
+const NO_TRAILING_BYTES_WEIGHT = 0.2;
+const AGE_WEIGHT = 0.2;
+const ABI_AGREEMENT_WEIGHT = 0.2;
+
+// Runner-up confidence within this of the best makes a call ambiguous: candidates that only
+// differ by registration age are, a failed round-trip or a missing ABI entry is a clear loss
+export const AMBIGUITY_MARGIN = 0.15;
+
+/**
+ * Decode call data with every candidate signature and rank the ones that decode
+ * Confidence combines:
+ * - re-encoding the decoded arguments gives back the exact call data
+ * - the signature consumes all of the call data (no trailing bytes)
+ * - registration age: the bundled database is curated, older 4byte entries beat newer lookalikes
+ * - the target's ABI (when there is one) contains the signature
+ * @param callData Call data (hex string)
+ * @param signatures Candidate signatures, in provider order
+ * @param abi ABI of the target contract
+ * @returns Candidates that decode, best first (provider order breaks ties)
+ */
+export function rankSignatureCandidates(
+  callData: string,
+  signatures: FunctionSignature[],
+  abi?: Abi | null
+): RankedCandidate[] {
+  const fourByteIds = signatures
+    .map((signature) => signature.id)
+    .filter((id): id is number => id !== undefined)
+    .sort((a, b) => a - b);
+
+  const abiSignatures = abi
+    ? abi.filter((item): item is AbiFunction => item.type === 'function').map((item) => toFunctionSignature(item))
+    : undefined;
+
+  const candidates: RankedCandidate[] = [];
+
+  for (const signature of signatures) {
+    let abiItem: AbiFunction;
+    let args: readonly unknown[];
+    try {
+      abiItem = parseAbiItem(`function ${signature.signature}`) as AbiFunction;
+      args = decodeFunctionData({ abi: [abiItem], data: callData as Hex }).args || [];
+    } catch (error) {
+      continue;
+    }
+
+    let reEncoded: string | undefined;
+    try {
+      reEncoded = encodeFunctionData({ abi: [abiItem], args });
+    } catch (error) {
+      // Decoded values that can't be encoded again, no round-trip credit
+    }
+
+    const roundTrip = reEncoded !== undefined && reEncoded.toLowerCase() === callData.toLowerCase();
+    const inAbi = abiSignatures?.includes(toFunctionSignature(abiItem));
+
+    let confidence = 0;
+    if (roundTrip) {
+      confidence += ROUND_TRIP_WEIGHT;
+    }
+    if (reEncoded && reEncoded.length >= callData.length) {
+      confidence += NO_TRAILING_BYTES_WEIGHT;
+    }
+    confidence += AGE_WEIGHT * ageScore(signature, fourByteIds);
+    if (inAbi === undefined) {
+      confidence += ABI_AGREEMENT_WEIGHT / 2;
+    } else if (inAbi) {
+      confidence += ABI_AGREEMENT_WEIGHT;
+    }
+
+    candidates.push({
+      name: signature.name,
+      signature: signature.signature,
+      args: [...args],
+      confidence: Math.round(confidence * 100) / 100,
+      source: signature.source,
+      roundTrip,
+      inAbi,
+      abiItem,
+    });
+  }
+
+  // Array.prototype.sort is stable, equal scores keep provider order
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Whether the decoding of a call is in doubt
+ * True when the runner-up is within AMBIGUITY_MARGIN of the best candidate, or when the
+ * best candidate doesn't round-trip or isn't in the target's ABI.
+ * @param candidates Ranked candidates, best first
+ */
+export function isAmbiguous(candidates: SignatureCandidate[] | undefined): boolean {
+  if (!candidates || candidates.length < 2) {
+    return false;
+  }
+  const [best, runnerUp] = candidates;
+  return best.confidence - runnerUp.confidence <= AMBIGUITY_MARGIN || !best.roundTrip || best.inAbi === false;
+}
+
+/**
+ * Score a signature by how long it has been known
+ */
+function ageScore(signature: FunctionSignature, fourByteIds: number[]): number {
+  if (signature.source === 'local') {
+    return 1;
+  }
+  if (signature.id === undefined) {
+    return 0.5;
+  }
+  return 1 / (fourByteIds.indexOf(signature.id) + 1);
+}
@@ -0,0 +1,197 @@
+import { hexToBytes, type Hex } from 'viem';
+import type { MulticallDecoder } from './decoder';
+import { RpcError, type CallRequest, type RpcClient } from './rpc-client';
+import type { DecodedCall, MulticallFormat } from './types';
+
+export interface SimulationRequest {
+  // Batch contract (or target) the transaction is sent to
+  to: string;
+  data: string;
+  from?: string;
+  value?: bigint;
+  // Safe that delegatecalls a multiSend batch, its subcalls run with the Safe as msg.sender
+  safe?: string;
+}
+
+export interface SimulationResult {
+  block: string;
+  success: boolean;
+  returnData: string;
+  revertReason?: string;
+  // Gas estimate of the whole transaction
+  gasUsed?: bigint;
+}
+
+export interface CallSimulatorConfig {
+  rpcClient: RpcClient;
+  // Used to decode return values and revert reasons
+  decoder: MulticallDecoder;
+  // Block number (hex) or tag, defaults to latest
+  block?: string;
+}
+
+// Formats whose subcalls are made by the multicall contract itself (msg.sender is the batch contract)
+const MULTICALL_CONTRACT_FORMATS: MulticallFormat[] = [
+  'aggregate',
+  'aggregate3',
+  'aggregate3Value',
+  'tryAggregate',
+  'tryBlockAndAggregate',
+  'blockAndAggregate',
+];
+
+const TX_BASE_GAS = 21000n;
+
+/**
+ * Simulates a batch and its subcalls with eth_call, e.g. against a local anvil fork
+ * Subcall results come from the batch run when its return data holds per-call results,
+ * so later calls see the state changes of earlier ones; otherwise each subcall is run on its own.
+ */
+export class CallSimulator {
+  private rpcClient: RpcClient;
+  private decoder: MulticallDecoder;
+  private block: string;
+
+  constructor(config: CallSimulatorConfig) {
+    this.rpcClient = config.rpcClient;
+    this.decoder = config.decoder;
+    this.block = config.block ?? 'latest';
+  }
+
+  /**
+   * Simulate a batch, attaching a `result` (success, return values or revert reason, gas) to each call
+   * @param calls Decoded calls of the batch
+   * @param request The batch transaction
+   * @returns Result of the batch as a whole
+   */
+  async simulate(calls: DecodedCall[], request: SimulationRequest): Promise<SimulationResult> {
+    const batch = await this.execute(request);
+    if ('error' in batch) {
+      throw new Error(`Simulation failed: ${batch.error}`);
+    }
+
+    const decodedBatch = await this.decoder.decodeCallResult(request.to, request.data, batch.success, batch.returnData);
+    const result: SimulationResult = {
+      block: this.block,
+      success: batch.success,
+      returnData: batch.returnData,
+      revertReason: decodedBatch.revertReason,
+      gasUsed: batch.success ? await this.estimateGas(request) : undefined,
+    };
+
+    // Universal Router commands aren't calls, only the batch as a whole can be simulated
+    if (calls.length === 0 || calls[0].format === 'universalRouter') {
+      return result;
+    }
+
+    const batchResults = batch.success ? this.splitResults(calls, batch.returnData) : null;
+
+    for (const [index, call] of calls.entries()) {
+      if (call.operation === 'delegatecall') {
+        call.result = {
+          success: false,
+          returnData: '0x',
+          error: 'delegatecalls run in the context of the caller and cannot be simulated on their own',
+        };
+        continue;
+      }
+
+      const subcall: CallRequest = {
+        to: call.target,
+        data: call.rawCallData,
+        from: this.subcallSender(call, request),
+        value: call.value,
+      };
+
+      const execution = batchResults?.[index] ?? (await this.execute(subcall));
+      if ('error' in execution) {
+        call.result = { success: false, returnData: '0x', error: execution.error };
+        continue;
+      }
+
+      call.result = await this.decoder.decodeCallResult(call.target, call.rawCallData, execution.success, execution.returnData);
+
+      if (execution.success) {
+        const gas = await this.estimateGas(subcall);
+        // Subcalls don't pay the transaction's base and calldata cost
+        call.result.gasUsed = gas !== undefined ? gas - intrinsicGas(call.rawCallData) : undefined;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * msg.sender of a subcall: the multicall contract, the Safe running a multiSend, or the batch sender
+   * A multiSend without a Safe is taken to be called directly (MultiSendCallOnly), so its subcalls come
+   * from the multiSend contract. Delegatecall operations run the target's code in the Safe's context
+   * and aren't simulated at all.
+   */
+  private subcallSender(call: DecodedCall, request: SimulationRequest): string | undefined {
+    if (call.format === 'multiSend') {
+      return request.safe ?? request.to;
+    }
+    return call.format && MULTICALL_CONTRACT_FORMATS.includes(call.format) ? request.to : request.from;
+  }
+
+  /**
+   * Run a call, reverts are results rather than errors
+   */
+  private async execute(
+    call: CallRequest
+  ): Promise<{ success: boolean; returnData: string } | { error: string }> {
+    try {
+      const returnData = await this.rpcClient.call(call, this.block);
+      return { success: true, returnData: returnData ?? '0x' };
+    } catch (error: any) {
+      if (error instanceof RpcError && (error.data !== undefined || /revert/i.test(error.message))) {
+        return { success: false, returnData: error.data ?? '0x' };
+      }
+      if (error instanceof RpcError) {
+        // e.g. insufficient funds for the call's value
+        return { error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private async estimateGas(call: CallRequest): Promise<bigint | undefined> {
+    try {
+      return await this.rpcClient.estimateGas(call, this.block);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Per-call results from the batch's return data, null when the format doesn't return them
+   */
+  private splitResults(calls: DecodedCall[], returnData: string): { success: boolean; returnData: string }[] | null {
+    try {
+      const results = this.decoder.splitMulticallResult(calls[0].format, returnData);
+      return results.length === calls.length ? results : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Base transaction cost plus calldata cost (4 gas per zero byte, 16 per non-zero byte)
+ */
+function intrinsicGas(data: string): bigint {
+  return hexToBytes(data as Hex).reduce((gas, byte) => gas + (byte === 0 ? 4n : 16n), TX_BASE_GAS);
+}
+
+/**
+ * Parse a block number (decimal or hex) or tag into the form JSON-RPC expects
+ */
+export function parseBlockTag(block: string): string {
+  if (['latest', 'pending', 'earliest', 'safe', 'finalized'].includes(block)) {
+    return block;
+  }
+  if (/^(0x[0-9a-fA-F]+|\d+)$/.test(block)) {
+    return `0x${BigInt(block).toString(16)}`;
+  }
+  throw new Error(`Invalid block "${block}": expected a number or latest, pending, earliest, safe, finalized`);
+}
@@ -0,0 +1,110 @@
+import type { Abi } from 'viem';
+import { HttpClient, sharedRateLimiter } from './http-client';
+import { toNetworkConfig } from './networks';
+import type { ContractInfo, ContractSource } from './contract-source';
+import type { DiskCache } from './disk-cache';
+import type { NetworkConfig } from './networks';
+import type { Network } from './types';
+
+export const SOURCIFY_API_URL = 'https://sourcify.dev/server';
+
+export interface SourcifyConfig {
+  // Network name, chain id or config; the config's explorerApiUrl overrides the public Sourcify server
+  network?: Network | NetworkConfig;
+  cache?: DiskCache;
+  // Defaults to a client paced by the rate limiter shared by all clients of the same server
+  httpClient?: HttpClient;
+}
+
+// The fields of a Sourcify v2 contract lookup that are used
+interface SourcifyContract {
+  abi?: Abi;
+  compilation?: { name?: string };
+  proxyResolution?: {
+    isProxy?: boolean;
+    implementations?: { address: string; name?: string }[];
+  };
+}
+
+/**
+ * Client for the Sourcify v2 API
+ * Verified contracts are looked up once; ABI, name and proxy details come from the same response.
+ */
+export class SourcifyClient implements ContractSource {
+  readonly name = 'sourcify';
+  private baseUrl: string;
+  private chainId: number;
+  private diskCache?: DiskCache;
+  private http: HttpClient;
+  private contracts: Map<string, Promise<SourcifyContract | null>> = new Map();
+
+  constructor(config: SourcifyConfig = {}) {
+    const network = toNetworkConfig(config.network);
+    this.baseUrl = (network.explorerApiUrl || SOURCIFY_API_URL).replace(/\/+$/, '');
+    this.chainId = network.chainId;
+    this.diskCache = config.cache;
+    this.http = config.httpClient || new HttpClient({
+      rateLimiter: sharedRateLimiter(this.baseUrl, { requestsPerSecond: 10, burst: 5 }),
+    });
+  }
+
+  async getContractAbi(address: string): Promise<Abi | null> {
+    return (await this.getContract(address))?.abi ?? null;
+  }
+
+  async getContractInfo(address: string): Promise<ContractInfo> {
+    const normalizedAddress = address.toLowerCase();
+    const contract = await this.getContract(normalizedAddress);
+    const implementation = contract?.proxyResolution?.isProxy ? contract.proxyResolution.implementations?.[0] : undefined;
+
+    return {
+      name: contract?.compilation?.name || 'Unknown Contract',
+      address: normalizedAddress,
+      isVerified: Boolean(contract),
+      isProxy: Boolean(contract?.proxyResolution?.isProxy),
+      implementation: implementation?.address.toLowerCase(),
+      implementationName: implementation?.name,
+    };
+  }
+
+  async getImplementationAddress(address: string): Promise<string | null> {
+    const contract = await this.getContract(address);
+    const implementation = contract?.proxyResolution?.isProxy ? contract.proxyResolution.implementations?.[0] : undefined;
+    return implementation?.address.toLowerCase() ?? null;
+  }
+
+  private getContract(address: string): Promise<SourcifyContract | null> {
+    const normalizedAddress = address.toLowerCase();
+
+    if (!this.contracts.has(normalizedAddress)) {
+      this.contracts.set(normalizedAddress, this.fetchContract(normalizedAddress));
+    }
+
+    return this.contracts.get(normalizedAddress)!;
+  }
+
+  private async fetchContract(address: string): Promise<SourcifyContract | null> {
+    const cacheKey = `sourcify:${this.chainId}:${address}`;
+    const cached = this.diskCache?.get<SourcifyContract>('contract', cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const { abi, compilation, proxyResolution } = await this.http.get(`${this.baseUrl}/v2/contract/${this.chainId}/${address}`, {
+        fields: 'abi,compilation.name,proxyResolution',
+      });
+      const contract: SourcifyContract = { abi, compilation: { name: compilation?.name }, proxyResolution };
+      this.diskCache?.set('contract', cacheKey, contract);
+      return contract;
+    } catch (error: any) {
+      // Not verified on Sourcify
+      if (error.response?.status === 404) {
+        this.diskCache?.setNegative('contract', cacheKey);
+      } else {
+        console.error(`Failed to fetch ${address} from Sourcify:`, error.message);
+      }
+      return null;
+    }
+  }
+}
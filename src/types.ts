@@ -1,18 +1,142 @@
+import type { SignatureProvider } from './signature-providers';
+import type { DiskCache } from './disk-cache';
+import type { AbiRegistry } from './abi-registry';
+import type { ContractSource } from './contract-source';
+import type { NetworkConfig } from './networks';
+
+// Name of a built-in network (mainnet, sepolia, polygon, ...) or one from the networks file
+export type Network = string;
+
+export type CallOperation = 'call' | 'delegatecall';
+
+export type MulticallFormat =
+  | 'aggregate'
+  | 'aggregate3'
+  | 'aggregate3Value'
+  | 'tryAggregate'
+  | 'tryBlockAndAggregate'
+  | 'blockAndAggregate'
+  | 'multiSend'
+  | 'multicall'
+  | 'universalRouter';
+
+export interface V3PathHop {
+  tokenIn: string;
+  fee: number;
+  tokenOut: string;
+}
+
 export interface MulticallCall {
   target: string;
   callData: string;
+  format?: MulticallFormat;
+  operation?: CallOperation;
+  value?: bigint;
+  allowFailure?: boolean;
+  requireSuccess?: boolean;
+  deadline?: bigint;
+}
+
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+  decoded?: any[];
+  revertReason?: string;
+  // Execution gas of a simulated call (without the transaction's intrinsic cost)
+  gasUsed?: bigint;
+  // Why a call could not be simulated
+  error?: string;
+}
+
+export interface DecodedParam {
+  // Parameter or struct field name ('' when unnamed), `[i]` for array elements
+  name: string;
+  // ABI type, e.g. "address", "uint256[]", "tuple"
+  type: string;
+  // Solidity type from the ABI when it adds information, e.g. "struct ISwapRouter.ExactInputSingleParams"
+  internalType?: string;
+  // Leaf values only
+  value?: any;
+  // Human-readable rendering of the value, e.g. "1,250.5 USDC", "unlimited", an ISO date
+  formatted?: string;
+  // Address book label of an address value
+  label?: string;
+  // Struct fields or array elements
+  components?: DecodedParam[];
+}
+
+export interface SignatureCandidate {
+  name: string;
+  signature: string;
+  args: any[];
+  // 0 to 1, see rankSignatureCandidates
+  confidence: number;
+  // Re-encoding the decoded arguments gives back the exact call data
+  roundTrip: boolean;
+  // The target's ABI contains the signature, undefined when there is no ABI
+  inAbi?: boolean;
+  // Signature provider the candidate came from
+  source?: string;
+}
+
+export type RiskSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskFinding {
+  // Rule id, e.g. "unlimited-approval"
+  rule: string;
+  severity: RiskSeverity;
+  message: string;
+  // Position of the call in the batch, e.g. "2" or "2.1" for a nested call
+  call: string;
+  target: string;
 }
 
 export interface DecodedCall {
   target: string;
+  // Address book label of the target
+  targetLabel?: string;
   functionName: string;
   functionSignature: string;
   args: any[];
+  // Arguments with their names and types, when the function's ABI is known
+  params?: DecodedParam[];
   rawCallData: string;
+  format?: MulticallFormat;
+  operation?: CallOperation;
+  value?: bigint;
+  allowFailure?: boolean;
+  requireSuccess?: boolean;
+  deadline?: bigint;
+  path?: V3PathHop[];
+  result?: CallResult;
+  children?: DecodedCall[];
+  // Why the arguments were left raw, e.g. a malformed Universal Router subplan
+  decodeError?: string;
+  // Every signature that decodes the call data, best first (signature database lookups only)
+  candidates?: SignatureCandidate[];
+  // Findings of the risk rules for this call
+  risks?: RiskFinding[];
+  // One-line summary from the description templates, e.g. "Approve 1,000 USDC to Permit2"
+  description?: string;
 }
 
 export interface DecoderOptions {
+  // Explorer API key, defaults to the network's apiKeyEnv (ETHERSCAN_API_KEY)
   etherscanApiKey?: string;
-  network?: 'mainnet' | 'goerli' | 'sepolia' | 'polygon' | 'arbitrum' | 'optimism' | 'base';
+  // Network name, chain id or config
+  network?: Network | NetworkConfig;
+  // Verified ABIs and contract names, defaults to the network's explorer
+  contractSource?: ContractSource;
+  // JSON-RPC endpoint for the network (defaults to `<NETWORK>_RPC_URL` or `RPC_URL`)
+  rpcUrl?: string;
   verbose?: boolean;
+  maxDepth?: number;
+  // Restrict lookups to local sources (no Etherscan, no remote signature databases)
+  offline?: boolean;
+  // Signature providers in query order
+  signatureProviders?: SignatureProvider[];
+  // Persistent cache for ABIs, contract info and selectors
+  cache?: DiskCache;
+  // Local ABIs, checked before Etherscan
+  abiRegistry?: AbiRegistry;
 }
@@ -0,0 +1,233 @@
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  getAddress,
+  hexToNumber,
+  parseAbi,
+  parseAbiParameters,
+  zeroAddress,
+  type AbiParameter,
+  type Hex,
+} from 'viem';
+import { toDecodedParams } from './decoded-params';
+import type { DecodedCall, V3PathHop } from './types';
+
+export const UNIVERSAL_ROUTER_ABI = parseAbi([
+  'function execute(bytes commands, bytes[] inputs) external payable',
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline) external payable',
+]);
+
+// Command byte layout: 0x80 is the allow-revert flag, the low bits select the command
+const FLAG_ALLOW_REVERT = 0x80;
+const COMMAND_TYPE_MASK = 0x3f;
+
+// Address (20 bytes) + fee (3 bytes)
+const V3_PATH_HOP_LENGTH = 23;
+
+interface UniversalRouterCommand {
+  name: string;
+  parameters: readonly AbiParameter[];
+}
+
+const PERMIT_DETAILS = '(address token, uint160 amount, uint48 expiration, uint48 nonce)';
+
+/**
+ * Parameter layouts of the Universal Router commands, keyed by command type
+ */
+const COMMANDS: Record<number, UniversalRouterCommand> = {
+  0x00: command('V3_SWAP_EXACT_IN', 'address recipient, uint256 amountIn, uint256 amountOutMin, bytes path, bool payerIsUser'),
+  0x01: command('V3_SWAP_EXACT_OUT', 'address recipient, uint256 amountOut, uint256 amountInMax, bytes path, bool payerIsUser'),
+  0x02: command('PERMIT2_TRANSFER_FROM', 'address token, address recipient, uint160 amount'),
+  0x03: command(
+    'PERMIT2_PERMIT_BATCH',
+    `(${PERMIT_DETAILS}[] details, address spender, uint256 sigDeadline) permitBatch, bytes signature`
+  ),
+  0x04: command('SWEEP', 'address token, address recipient, uint256 amountMin'),
+  0x05: command('TRANSFER', 'address token, address recipient, uint256 value'),
+  0x06: command('PAY_PORTION', 'address token, address recipient, uint256 bips'),
+  0x08: command('V2_SWAP_EXACT_IN', 'address recipient, uint256 amountIn, uint256 amountOutMin, address[] path, bool payerIsUser'),
+  0x09: command('V2_SWAP_EXACT_OUT', 'address recipient, uint256 amountOut, uint256 amountInMax, address[] path, bool payerIsUser'),
+  0x0a: command(
+    'PERMIT2_PERMIT',
+    `(${PERMIT_DETAILS} details, address spender, uint256 sigDeadline) permitSingle, bytes signature`
+  ),
+  0x0b: command('WRAP_ETH', 'address recipient, uint256 amountMin'),
+  0x0c: command('UNWRAP_WETH', 'address recipient, uint256 amountMin'),
+  0x0d: command('PERMIT2_TRANSFER_FROM_BATCH', '(address from, address to, uint160 amount, address token)[] batchDetails'),
+  0x0e: command('BALANCE_CHECK_ERC20', 'address owner, address token, uint256 minBalance'),
+  0x21: command('EXECUTE_SUB_PLAN', 'bytes commands, bytes[] inputs'),
+};
+
+function command(name: string, parameters: string): UniversalRouterCommand {
+  return { name, parameters: parseAbiParameters(parameters) };
+}
+
+/**
+ * Decoder for Uniswap Universal Router `execute(commands, inputs[, deadline])` calls
+ * Each command byte selects the parameter layout of the matching input.
+ */
+export class UniversalRouterDecoder {
+  /**
+   * Check if call data is a Universal Router `execute` call
+   */
+  isExecute(data: string): boolean {
+    try {
+      decodeFunctionData({ abi: UNIVERSAL_ROUTER_ABI, data: data as Hex });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decode an `execute` call into one decoded call per command
+   * @param data Call data (hex string)
+   * @param target Router address, used as the target of every command
+   */
+  decodeExecute(data: string, target: string = zeroAddress): DecodedCall[] {
+    const decoded = decodeFunctionData({ abi: UNIVERSAL_ROUTER_ABI, data: data as Hex });
+    const [commands, inputs] = decoded.args;
+    const deadline = decoded.args.length === 3 ? decoded.args[2] : undefined;
+
+    const calls = this.decodeCommands(commands, inputs, target);
+    if (deadline !== undefined) {
+      calls.forEach((call) => {
+        call.deadline = deadline;
+      });
+    }
+    return calls;
+  }
+
+  /**
+   * Decode a list of commands with their inputs
+   * @param commands Packed command bytes
+   * @param inputs ABI-encoded input for each command
+   * @param target Router address
+   */
+  decodeCommands(commands: string, inputs: readonly string[], target: string): DecodedCall[] {
+    const commandBytes = (commands.startsWith('0x') ? commands.slice(2) : commands).match(/../g) || [];
+
+    if (commandBytes.length !== inputs.length) {
+      throw new Error(
+        `Universal Router commands and inputs length mismatch (${commandBytes.length} commands, ${inputs.length} inputs)`
+      );
+    }
+
+    return commandBytes.map((byte, index) => {
+      const call = this.decodeCommand(parseInt(byte, 16), inputs[index], target);
+      call.format = 'universalRouter';
+      return call;
+    });
+  }
+
+  /**
+   * Decode a single command input
+   */
+  private decodeCommand(commandByte: number, input: string, target: string): DecodedCall {
+    const commandType = commandByte & COMMAND_TYPE_MASK;
+    const allowFailure = (commandByte & FLAG_ALLOW_REVERT) !== 0;
+    const definition = COMMANDS[commandType];
+    const commandName = `0x${commandType.toString(16).padStart(2, '0')}`;
+
+    if (!definition) {
+      return {
+        target,
+        functionName: 'unknown',
+        functionSignature: `UNKNOWN_COMMAND(${commandName})`,
+        args: [input],
+        rawCallData: input,
+        allowFailure,
+      };
+    }
+
+    const signature = `${definition.name}(${definition.parameters.map(formatParameterType).join(',')})`;
+
+    let args: any[];
+    try {
+      args = [...decodeAbiParameters(definition.parameters, input as Hex)];
+    } catch (error) {
+      // Layout didn't match, keep the raw input
+      return {
+        target,
+        functionName: definition.name,
+        functionSignature: signature,
+        args: [input],
+        rawCallData: input,
+        allowFailure,
+      };
+    }
+
+    const call: DecodedCall = {
+      target,
+      functionName: definition.name,
+      functionSignature: signature,
+      args,
+      params: toDecodedParams(definition.parameters, args),
+      rawCallData: input,
+      allowFailure,
+    };
+
+    if (definition.name === 'V3_SWAP_EXACT_IN' || definition.name === 'V3_SWAP_EXACT_OUT') {
+      try {
+        call.path = decodeV3Path(args[3]);
+      } catch (error) {
+        // Malformed path, the raw bytes are still in args
+      }
+    }
+
+    if (definition.name === 'EXECUTE_SUB_PLAN') {
+      try {
+        call.children = this.decodeCommands(args[0], args[1], target);
+      } catch (error: any) {
+        // Malformed subplan, keep the raw input so the rest of the plan still decodes
+        return {
+          target,
+          functionName: definition.name,
+          functionSignature: signature,
+          args: [input],
+          rawCallData: input,
+          allowFailure,
+          decodeError: error.message,
+        };
+      }
+    }
+
+    return call;
+  }
+}
+
+/**
+ * Decode a Uniswap V3 path (`token | fee | token | fee | token ...`) into hops
+ * Exact-output swaps encode the path in reverse (output token first).
+ * @param path Packed path (hex string)
+ */
+export function decodeV3Path(path: string): V3PathHop[] {
+  const hex = path.startsWith('0x') ? path.slice(2) : path;
+  const byteLength = hex.length / 2;
+
+  if (byteLength < 20 + V3_PATH_HOP_LENGTH || (byteLength - 20) % V3_PATH_HOP_LENGTH !== 0) {
+    throw new Error(`Invalid V3 path length: ${byteLength} bytes`);
+  }
+
+  const hops: V3PathHop[] = [];
+  for (let offset = 0; offset + 20 < byteLength; offset += V3_PATH_HOP_LENGTH) {
+    const start = offset * 2;
+    hops.push({
+      tokenIn: getAddress(`0x${hex.slice(start, start + 40)}`),
+      fee: hexToNumber(`0x${hex.slice(start + 40, start + 46)}`),
+      tokenOut: getAddress(`0x${hex.slice(start + 46, start + 86)}`),
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * Format a parameter type, expanding tuples into their component types
+ */
+function formatParameterType(param: AbiParameter): string {
+  if (param.type.startsWith('tuple') && 'components' in param) {
+    return `(${param.components.map(formatParameterType).join(',')})${param.type.slice('tuple'.length)}`;
+  }
+  return param.type;
+}
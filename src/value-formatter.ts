@@ -0,0 +1,318 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  formatEther,
+  formatUnits,
+  hexToString,
+  parseAbi,
+  type Hex,
+} from 'viem';
+import type { RpcClient } from './rpc-client';
+import type { DecodedCall, DecodedParam } from './types';
+
+export interface TokenMetadata {
+  address: string;
+  symbol?: string;
+  decimals: number;
+}
+
+/**
+ * A source of ERC20 metadata
+ */
+export interface TokenMetadataProvider {
+  // Resolves to null for addresses that aren't ERC20 tokens
+  getTokenMetadata(address: string): Promise<TokenMetadata | null>;
+}
+
+const ERC20_METADATA_ABI = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+]);
+
+// Some early tokens (e.g. MKR) return their symbol as bytes32
+const BYTES32_SYMBOL_ABI = parseAbi(['function symbol() view returns (bytes32)']);
+
+/**
+ * Reads `decimals()` and `symbol()` over JSON-RPC
+ */
+export class RpcTokenMetadataProvider implements TokenMetadataProvider {
+  private rpcClient: RpcClient;
+  private cache: Map<string, Promise<TokenMetadata | null>> = new Map();
+
+  constructor(rpcClient: RpcClient) {
+    this.rpcClient = rpcClient;
+  }
+
+  getTokenMetadata(address: string): Promise<TokenMetadata | null> {
+    const normalizedAddress = address.toLowerCase();
+
+    if (!this.cache.has(normalizedAddress)) {
+      this.cache.set(normalizedAddress, this.fetchTokenMetadata(normalizedAddress));
+    }
+
+    return this.cache.get(normalizedAddress)!;
+  }
+
+  private async fetchTokenMetadata(address: string): Promise<TokenMetadata | null> {
+    let decimals: number;
+    try {
+      const result = await this.rpcClient.call({
+        to: address,
+        data: encodeFunctionData({ abi: ERC20_METADATA_ABI, functionName: 'decimals' }),
+      });
+      decimals = decodeFunctionResult({ abi: ERC20_METADATA_ABI, functionName: 'decimals', data: result as Hex });
+    } catch (error) {
+      // No decimals(), not a token
+      return null;
+    }
+
+    let symbol: string | undefined;
+    try {
+      const result = (await this.rpcClient.call({
+        to: address,
+        data: encodeFunctionData({ abi: ERC20_METADATA_ABI, functionName: 'symbol' }),
+      })) as Hex;
+      try {
+        symbol = decodeFunctionResult({ abi: ERC20_METADATA_ABI, functionName: 'symbol', data: result });
+      } catch (error) {
+        const raw = decodeFunctionResult({ abi: BYTES32_SYMBOL_ABI, functionName: 'symbol', data: result });
+        symbol = hexToString(raw, { size: 32 }).replace(/\0+$/, '');
+      }
+    } catch (error) {
+      // Amounts can still be scaled without a symbol
+    }
+
+    return { address, symbol: symbol || undefined, decimals };
+  }
+}
+
+/**
+ * Token metadata from a fixed list
+ */
+export class StaticTokenMetadataProvider implements TokenMetadataProvider {
+  private tokens: Map<string, TokenMetadata> = new Map();
+
+  constructor(tokens: TokenMetadata[] = []) {
+    for (const token of tokens) {
+      this.tokens.set(token.address.toLowerCase(), token);
+    }
+  }
+
+  async getTokenMetadata(address: string): Promise<TokenMetadata | null> {
+    return this.tokens.get(address.toLowerCase()) || null;
+  }
+}
+
+export interface ValueFormatterOptions {
+  // Without a provider token amounts are left unscaled
+  tokenProvider?: TokenMetadataProvider;
+}
+
+// Functions whose amounts are denominated in the target token itself, with their parameter
+// names for when the call was decoded from a bare signature
+const TARGET_TOKEN_FUNCTIONS: Record<string, string[]> = {
+  'transfer(address,uint256)': ['to', 'amount'],
+  'transferFrom(address,address,uint256)': ['from', 'to', 'amount'],
+  'approve(address,uint256)': ['spender', 'amount'],
+  'increaseAllowance(address,uint256)': ['spender', 'addedValue'],
+  'decreaseAllowance(address,uint256)': ['spender', 'subtractedValue'],
+  'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)': ['owner', 'spender', 'value', 'deadline', 'v', 'r', 's'],
+  'mint(address,uint256)': ['to', 'amount'],
+  'burn(uint256)': ['amount'],
+  'burnFrom(address,uint256)': ['from', 'amount'],
+  'withdraw(uint256)': ['wad'],
+};
+
+const TOKEN_NAME = /^(token|asset|underlying|currency)(In|Out|[01AB])?$|^_?token$/i;
+const AMOUNT_NAME = /amount|value|wad|qty|quantity|allowance/i;
+// Names ending in ETH or Wei, e.g. amountETH, amountETHMin, valueWei (a bare `value` may be any number)
+const ETH_NAME = /(^eth|ETH|Eth|^wei|Wei)(Min|Max|Minimum|Maximum|Desired)?$/;
+const TIMESTAMP_NAME = /deadline|expir|timestamp|valid(Until|After|Before)|^(start|end)?time$|^until$/i;
+const BPS_NAME = /bps|bips|basisPoints/i;
+const PERCENT_NAME = /percent|pct/i;
+// Percentages whose scale is known, as the decimals of one percent; other percent names stay raw
+const KNOWN_PERCENT_NAMES: Record<string, number> = {
+  percent: 0,
+  percentage: 0,
+  pct: 0,
+  // Balancer V2 pool fees, 1e18 is 100%
+  swapFeePercentage: 16,
+};
+
+// Unix timestamps between 2001 and 2286, anything else named like a deadline is left alone
+const MIN_TIMESTAMP = 1_000_000_000n;
+const MAX_TIMESTAMP = 10_000_000_000n;
+
+/**
+ * Adds human-readable renderings (`formatted`) to decoded params
+ * Raw values are left untouched in `value`.
+ */
+export class ValueFormatter {
+  private tokenProvider?: TokenMetadataProvider;
+
+  constructor(options: ValueFormatterOptions = {}) {
+    this.tokenProvider = options.tokenProvider;
+  }
+
+  /**
+   * Format the params of decoded calls and their nested calls
+   */
+  async formatCalls(calls: DecodedCall[]): Promise<void> {
+    for (const call of calls) {
+      await this.formatCall(call);
+    }
+  }
+
+  /**
+   * Format the params of a decoded call and its nested calls
+   */
+  async formatCall(call: DecodedCall): Promise<void> {
+    if (call.params) {
+      const knownNames = TARGET_TOKEN_FUNCTIONS[call.functionSignature];
+      const targetToken = knownNames ? call.target : undefined;
+      await this.formatParams(call.params, call.params, targetToken, knownNames);
+    }
+
+    await this.formatCalls(call.children || []);
+  }
+
+  /**
+   * Format a list of sibling params (function arguments or struct fields)
+   */
+  private async formatParams(
+    params: DecodedParam[],
+    topLevel: DecodedParam[],
+    targetToken?: string,
+    fallbackNames?: string[]
+  ): Promise<void> {
+    for (const [index, param] of params.entries()) {
+      const name = param.name || fallbackNames?.[index] || '';
+
+      if (param.components) {
+        // Array elements are formatted as their array, struct fields against their siblings
+        if (param.type.endsWith(']')) {
+          for (const element of param.components) {
+            await this.formatParam(element, name, params, topLevel, targetToken);
+          }
+        } else {
+          await this.formatParams(param.components, topLevel, targetToken);
+        }
+        continue;
+      }
+
+      await this.formatParam(param, name, params, topLevel, targetToken);
+    }
+  }
+
+  private async formatParam(
+    param: DecodedParam,
+    name: string,
+    siblings: DecodedParam[],
+    topLevel: DecodedParam[],
+    targetToken?: string
+  ): Promise<void> {
+    if (param.components) {
+      await this.formatParams(param.components, topLevel, targetToken);
+      return;
+    }
+
+    const bits = param.type.match(/^uint(\d*)$/);
+    // viem decodes integers of up to 48 bits as numbers
+    if (!bits || (typeof param.value !== 'bigint' && typeof param.value !== 'number')) {
+      return;
+    }
+
+    const value = BigInt(param.value);
+    const maxValue = (1n << BigInt(bits[1] || 256)) - 1n;
+
+    if (TIMESTAMP_NAME.test(name)) {
+      if (value === maxValue) {
+        param.formatted = 'never';
+      } else if (value >= MIN_TIMESTAMP && value < MAX_TIMESTAMP) {
+        param.formatted = new Date(Number(value) * 1000).toISOString();
+      }
+      return;
+    }
+
+    // Small integer types (fees, flags, counts) are never "unlimited"
+    if (value === maxValue && maxValue >= (1n << 64n) - 1n) {
+      param.formatted = 'unlimited';
+      return;
+    }
+
+    if (BPS_NAME.test(name)) {
+      param.formatted = `${formatDecimal(formatUnits(value, 2))}%`;
+      return;
+    }
+    // Percentages come in many scales (whole percent, basis points, 1e18 fixed point), only known names are formatted
+    if (PERCENT_NAME.test(name)) {
+      if (name in KNOWN_PERCENT_NAMES) {
+        param.formatted = `${formatDecimal(formatUnits(value, KNOWN_PERCENT_NAMES[name]))}%`;
+      }
+      return;
+    }
+    // Uniswap V3 fee tiers are in hundredths of a basis point
+    if (name === 'fee' && param.type === 'uint24') {
+      param.formatted = `${formatDecimal(formatUnits(value, 4))}%`;
+      return;
+    }
+
+    if (AMOUNT_NAME.test(name)) {
+      const tokenAddress = findTokenAddress(name, siblings, topLevel) ?? targetToken;
+      const token = tokenAddress && this.tokenProvider
+        ? await this.tokenProvider.getTokenMetadata(tokenAddress).catch(() => null)
+        : null;
+
+      if (token) {
+        const amount = formatDecimal(formatUnits(value, token.decimals));
+        param.formatted = token.symbol ? `${amount} ${token.symbol}` : amount;
+      }
+      // A token amount with unknown decimals is still not ETH
+      if (tokenAddress) {
+        return;
+      }
+    }
+
+    if (ETH_NAME.test(name)) {
+      param.formatted = `${formatDecimal(formatEther(value))} ETH`;
+    }
+  }
+}
+
+/**
+ * Find the token an amount is denominated in
+ * Matches suffixes (amountIn → tokenIn, amount0 → token0), then a single token among the
+ * siblings or the top-level arguments, then the ends of a swap `path`.
+ */
+function findTokenAddress(amountName: string, siblings: DecodedParam[], topLevel: DecodedParam[]): string | undefined {
+  for (const scope of [siblings, topLevel]) {
+    const tokens = scope.filter((param) => param.type === 'address' && TOKEN_NAME.test(param.name));
+
+    const suffix = amountName.match(/(In|Out|[01AB])(Max|Min|Minimum|Maximum|Desired)?$/)?.[1];
+    const matching = suffix ? tokens.find((token) => token.name.endsWith(suffix)) : undefined;
+    if (matching) {
+      return matching.value;
+    }
+
+    if (tokens.length === 1) {
+      return tokens[0].value;
+    }
+
+    const path = scope.find((param) => param.name === 'path' && param.type === 'address[]');
+    if (path?.components && path.components.length > 0 && suffix) {
+      const hop = suffix === 'In' ? path.components[0] : path.components[path.components.length - 1];
+      return hop.value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Add thousands separators to a decimal string, e.g. "1250.5" → "1,250.5"
+ */
+export function formatDecimal(value: string): string {
+  const [integer, fraction] = value.split('.');
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return fraction ? `${grouped}.${fraction}` : grouped;
+}
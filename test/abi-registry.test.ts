@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encodeFunctionData, parseAbi } from 'viem';
+import { AbiRegistry, parseAbiArtifact } from '../src/abi-registry';
+import { MulticallDecoder } from '../src/decoder';
+
+const vaultAbi = parseAbi([
+  'function rebalance(uint256 targetRatio, address keeper) returns (uint256 moved)',
+]);
+
+const VAULT = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+
+describe('AbiRegistry', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'multicall-decoder-abi-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should parse plain ABIs, Foundry and Hardhat artifacts', () => {
+    expect(parseAbiArtifact(vaultAbi)).toEqual(vaultAbi);
+    expect(parseAbiArtifact({ abi: vaultAbi, bytecode: { object: '0x' }, methodIdentifiers: {} })).toEqual(vaultAbi);
+    expect(parseAbiArtifact({ _format: 'hh-sol-artifact-1', contractName: 'Vault', abi: vaultAbi })).toEqual(vaultAbi);
+    expect(parseAbiArtifact({ _format: 'hh-sol-dbg-1', buildInfo: '../build-info/x.json' })).toBeNull();
+  });
+
+  it('should load artifact directories and match functions by selector', () => {
+    fs.mkdirSync(path.join(directory, 'Vault.sol'));
+    fs.writeFileSync(path.join(directory, 'Vault.sol', 'Vault.json'), JSON.stringify({ abi: vaultAbi }));
+    fs.writeFileSync(path.join(directory, 'Vault.sol', 'Vault.dbg.json'), JSON.stringify({ buildInfo: 'x' }));
+    fs.writeFileSync(path.join(directory, 'notes.json'), JSON.stringify({ hello: 'world' }));
+
+    const registry = new AbiRegistry();
+
+    expect(registry.loadDirectory(directory)).toBe(1);
+    expect(registry.findFunctions('0x00000000')).toEqual([]);
+    expect(registry.findFunctions(encodeFunctionData({
+      abi: vaultAbi,
+      functionName: 'rebalance',
+      args: [1n, VAULT],
+    }).slice(0, 10))[0].name).toBe('rebalance');
+  });
+
+  it('should decode calls with registered ABIs before remote lookups', async () => {
+    const file = path.join(directory, 'vault.json');
+    fs.writeFileSync(file, JSON.stringify(vaultAbi));
+
+    const registry = new AbiRegistry();
+    registry.registerFile(file, VAULT);
+    const decoder = new MulticallDecoder({ abiRegistry: registry, offline: true });
+
+    const callData = encodeFunctionData({ abi: vaultAbi, functionName: 'rebalance', args: [5000n, VAULT] });
+    const decoded = await decoder.decodeCall(VAULT, callData);
+
+    expect(decoded.functionSignature).toBe('rebalance(uint256,address)');
+    expect(decoded.args).toEqual([5000n, VAULT]);
+
+    const result = await decoder.decodeCallResult(VAULT, callData, true, `0x${'0'.repeat(63)}7`);
+    expect(result.decoded).toEqual([7n]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encodeFunctionData, parseAbi } from 'viem';
+import { AddressBook } from '../src/address-book';
+import { MulticallDecoder } from '../src/decoder';
+
+const PERMIT2 = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const TREASURY = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+
+describe('AddressBook', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'multicall-decoder-labels-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load the entries of the current chain, overriding built-in labels', () => {
+    const file = path.join(directory, 'address-book.json');
+    fs.writeFileSync(file, JSON.stringify({
+      mainnet: { [TREASURY]: 'Treasury Safe' },
+      1: { [WETH]: 'Wrapped Ether' },
+      base: { [PERMIT2]: 'Base Permit2' },
+    }));
+
+    const addressBook = new AddressBook({ network: 'mainnet' });
+    expect(addressBook.get(WETH)).toEqual({ label: 'WETH', source: 'builtin' });
+
+    expect(addressBook.loadFile(file)).toBe(2);
+    expect(addressBook.get(TREASURY.toLowerCase())?.label).toBe('Treasury Safe');
+    expect(addressBook.get(WETH)).toEqual({ label: 'Wrapped Ether', source: 'user' });
+    expect(addressBook.get(PERMIT2)?.label).toBe('Permit2');
+
+    // Etherscan names never replace a user or built-in label
+    addressBook.set(PERMIT2, 'AllowanceTransfer', 'etherscan');
+    expect(addressBook.get(PERMIT2)?.label).toBe('Permit2');
+  });
+
+  it('should label call targets and address arguments', async () => {
+    const erc20Abi = parseAbi(['function approve(address spender, uint256 amount)']);
+    const decoder = new MulticallDecoder({ offline: true });
+    decoder.registerAbi(erc20Abi, WETH);
+
+    const call = await decoder.decodeCall(
+      WETH,
+      encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [PERMIT2, 1n] })
+    );
+    new AddressBook().labelCalls([call]);
+
+    expect(call.targetLabel).toBe('WETH');
+    expect(call.params?.[0]).toMatchObject({ value: PERMIT2, label: 'Permit2' });
+    expect(call.params?.[1].label).toBeUndefined();
+  });
+});
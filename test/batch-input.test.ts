@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { parseBatchRecords, readBatchRecords } from '../src/batch-input';
+
+const TO = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const HASH = `0x${'ab'.repeat(32)}`;
+
+describe('batch input', () => {
+  it('should read one calldata per line, skipping blanks and comments', () => {
+    expect(parseBatchRecords('0x1234\n\n# comment\n0xabcd\nnope\n')).toEqual([
+      { line: 1, data: '0x1234' },
+      { line: 4, data: '0xabcd' },
+      { line: 5, data: 'nope', error: 'Invalid data: expected a 0x-prefixed hex string' },
+    ]);
+  });
+
+  it('should read CSV with or without a header', () => {
+    expect(parseBatchRecords(`hash,label,to\n${HASH},swap,${TO}\n`)).toEqual([
+      { line: 2, hash: HASH, to: TO },
+    ]);
+    expect(parseBatchRecords(`${TO},0x1234\n,,${HASH}`)).toEqual([
+      { line: 1, to: TO, data: '0x1234' },
+      { line: 2, hash: HASH },
+    ]);
+  });
+
+  it('should stream JSONL records, reporting bad lines', async () => {
+    const input = Readable.from([
+      `{"to":"${TO}","data":"0x1234"}\n{"hash":"${HASH}"}\n`,
+      '{"to":"0x"}\n{broken\n',
+    ]);
+
+    const records = [];
+    for await (const record of readBatchRecords(input)) {
+      records.push(record);
+    }
+
+    expect(records).toHaveLength(4);
+    expect(records[0]).toEqual({ line: 1, to: TO, data: '0x1234' });
+    expect(records[1]).toEqual({ line: 2, hash: HASH });
+    expect(records[2].error).toBe('Record has neither data nor hash');
+    expect(records[3].error).toMatch(/^Invalid JSON/);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encodeFunctionData, encodePacked, maxUint256, parseAbi } from 'viem';
+import { AddressBook } from '../src/address-book';
+import { CallDescriber } from '../src/call-describer';
+import { MulticallDecoder } from '../src/decoder';
+import { StaticTokenMetadataProvider, ValueFormatter } from '../src/value-formatter';
+import type { DecodedCall } from '../src/types';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const PERMIT2 = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+const ROUTER = '0xE592427A0AEce92De3Edee1F18E0157C05861564';
+const RECIPIENT = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+
+const tokenProvider = new StaticTokenMetadataProvider([
+  { address: USDC, symbol: 'USDC', decimals: 6 },
+  { address: WETH, symbol: 'WETH', decimals: 18 },
+]);
+
+async function describeCall(target: string, callData: string, describer = new CallDescriber({ tokenProvider })) {
+  const call = await new MulticallDecoder({ offline: true }).decodeCall(target, callData);
+  await new ValueFormatter({ tokenProvider }).formatCall(call);
+  new AddressBook().labelCalls([call]);
+  await describer.describeCalls([call]);
+  return call.description;
+}
+
+describe('CallDescriber', () => {
+  it('should describe ERC20 approvals with scaled amounts and labels', async () => {
+    const abi = parseAbi(['function approve(address spender, uint256 amount)']);
+
+    expect(await describeCall(USDC, encodeFunctionData({ abi, functionName: 'approve', args: [PERMIT2, 1_000_000_000n] })))
+      .toBe('Approve 1,000 USDC to Permit2');
+    expect(await describeCall(USDC, encodeFunctionData({ abi, functionName: 'approve', args: [PERMIT2, maxUint256] })))
+      .toBe('Approve unlimited USDC to Permit2');
+    expect(
+      await describeCall(USDC, encodeFunctionData({ abi, functionName: 'approve', args: [PERMIT2, 5n] }), new CallDescriber())
+    ).toBe('Approve 5 base units of USDC to Permit2');
+  });
+
+  it('should describe swaps through struct fields and V3 paths', async () => {
+    const abi = parseAbi([
+      'struct ExactInputParams { bytes path; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; }',
+      'function exactInput(ExactInputParams params)',
+    ]);
+    const data = encodeFunctionData({
+      abi,
+      functionName: 'exactInput',
+      args: [{
+        path: encodePacked(['address', 'uint24', 'address'], [WETH, 500, USDC]),
+        recipient: RECIPIENT,
+        deadline: 1_800_000_000n,
+        amountIn: 2n * 10n ** 18n,
+        amountOutMinimum: 5_900_000_000n,
+      }],
+    });
+
+    expect(await describeCall(ROUTER, data)).toBe(`Swap 2 WETH for at least 5,900 USDC, sent to ${RECIPIENT}`);
+  });
+
+  it('should describe struct calls decoded through a registered ABI', async () => {
+    const abi = parseAbi([
+      'struct ExactInputParams { bytes path; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; }',
+      'function exactInput(ExactInputParams params) returns (uint256 amountOut)',
+    ]);
+    const decoder = new MulticallDecoder({ offline: true });
+    decoder.registerAbi(abi, ROUTER);
+
+    const call = await decoder.decodeCall(ROUTER, encodeFunctionData({
+      abi,
+      functionName: 'exactInput',
+      args: [{
+        path: encodePacked(['address', 'uint24', 'address'], [WETH, 500, USDC]),
+        recipient: RECIPIENT,
+        deadline: 1_800_000_000n,
+        amountIn: 10n ** 18n,
+        amountOutMinimum: 3_000_000_000n,
+      }],
+    }));
+    await new ValueFormatter({ tokenProvider }).formatCall(call);
+    await new CallDescriber({ tokenProvider }).describeCalls([call]);
+
+    expect(call.functionSignature).toBe('exactInput((bytes,address,uint256,uint256,uint256))');
+    expect(call.description).toBe(`Swap 1 WETH for at least 3,000 USDC, sent to ${RECIPIENT}`);
+  });
+
+  it('should prefer user packs and leave unknown functions undescribed', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'templates-')), 'templates.json');
+    fs.writeFileSync(file, JSON.stringify({
+      name: 'vault',
+      templates: {
+        'approve(address,uint256)': 'Let {0} pull {1@$target}',
+        'pause(bool)': '{0?Pause:Unpause} {$target}',
+      },
+    }));
+
+    const describer = new CallDescriber({ tokenProvider });
+    CallDescriber.loadPacks(file).forEach((pack) => describer.addPack(pack));
+    const abi = parseAbi(['function approve(address, uint256)', 'function sweep()']);
+
+    expect(await describeCall(USDC, encodeFunctionData({ abi, functionName: 'approve', args: [PERMIT2, 1_000_000n] }), describer))
+      .toBe('Let Permit2 pull 1 USDC');
+    const pause: DecodedCall = {
+      target: RECIPIENT,
+      functionName: 'pause',
+      functionSignature: 'pause(bool)',
+      args: [true],
+      rawCallData: '0x02329a29',
+    };
+    expect(await describer.describe(pause)).toBe(`Pause ${RECIPIENT}`);
+    // Generic signatures shared by unrelated contracts get no description
+    expect(await describer.describe({ ...pause, functionName: 'mint', functionSignature: 'mint(uint256)', args: [1n] })).toBeUndefined();
+    expect(await describeCall(USDC, encodeFunctionData({ abi, functionName: 'sweep' }), describer)).toBeUndefined();
+
+    fs.writeFileSync(file, JSON.stringify({ templates: { 'sweep()': 1 } }));
+    expect(() => CallDescriber.loadPacks(file)).toThrow('template of sweep() must be a string');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { BlockscoutClient } from '../src/blockscout-client';
+import { createContractSource } from '../src/contract-source';
+import { EtherscanClient } from '../src/etherscan-client';
+import { NetworkRegistry } from '../src/networks';
+import { resolveRpcUrl } from '../src/rpc-client';
+import { SourcifyClient } from '../src/sourcify-client';
+
+const PROXY = '0x0298e0c16097c3c2c3fc200f901ae54ae7659f99';
+const IMPLEMENTATION = '0x1111111254eeb25477b68fb85ed929f73a960582';
+const UNVERIFIED = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+const abi = [{ type: 'function', name: 'upgradeTo', inputs: [{ name: 'implementation', type: 'address' }], outputs: [], stateMutability: 'nonpayable' }];
+
+describe('NetworkRegistry', () => {
+  it('should load custom networks and overrides from a file', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'networks-')), 'networks.json');
+    fs.writeFileSync(file, JSON.stringify({
+      devnet: { chainId: 31337, rpcUrl: 'http://127.0.0.1:8545', explorerKind: 'blockscout', explorerApiUrl: 'http://127.0.0.1:4000/api' },
+      gnosis: { explorerKind: 'sourcify' },
+    }));
+
+    const registry = new NetworkRegistry();
+    expect(registry.loadFile(file)).toBe(2);
+
+    expect(registry.resolve('devnet')).toMatchObject({ chainId: 31337, explorerKind: 'blockscout' });
+    expect(registry.resolve(31337).name).toBe('devnet');
+    expect(registry.resolve('gnosis')).toMatchObject({ chainId: 100, explorerKind: 'sourcify' });
+    expect(registry.resolve('gnosis').explorerApiUrl).toBeUndefined();
+    expect(registry.resolve('59144')).toMatchObject({ name: 'linea', explorerKind: 'etherscan' });
+    expect(registry.resolve(7777777)).toMatchObject({ name: 'chain-7777777', explorerKind: 'etherscan' });
+    expect(() => registry.resolve('goerli')).toThrow('Unknown network "goerli"');
+
+    expect(resolveRpcUrl(registry.resolve('devnet'))).toBe('http://127.0.0.1:8545');
+    expect(resolveRpcUrl(registry.resolve('devnet'), 'http://other:8545')).toBe('http://other:8545');
+
+    fs.writeFileSync(file, JSON.stringify({ devnet: { chainId: 'dev' } }));
+    expect(() => registry.loadFile(file)).toThrow('devnet needs a positive integer chainId');
+  });
+
+  it('should create the contract source of a network', () => {
+    const registry = new NetworkRegistry();
+    expect(createContractSource(registry.resolve('mainnet'))).toBeInstanceOf(EtherscanClient);
+    expect(createContractSource({ name: 'devnet', chainId: 31337, explorerKind: 'sourcify' })).toBeInstanceOf(SourcifyClient);
+    expect(() => createContractSource({ name: 'devnet', chainId: 31337, explorerKind: 'blockscout' }))
+      .toThrow('Network devnet has no Blockscout API URL');
+  });
+});
+
+describe('explorer adapters', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push(req.url!);
+      res.setHeader('Content-Type', 'application/json');
+
+      // Sourcify v2
+      const sourcify = url.pathname.match(/^\/v2\/contract\/(\d+)\/(0x[0-9a-f]+)$/);
+      if (sourcify) {
+        if (sourcify[2] !== PROXY) {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ message: 'Contract not found' }));
+          return;
+        }
+        res.end(JSON.stringify({
+          abi,
+          compilation: { name: 'TransparentUpgradeableProxy' },
+          proxyResolution: { isProxy: true, implementations: [{ address: IMPLEMENTATION, name: 'Vault' }] },
+        }));
+        return;
+      }
+
+      // Blockscout's Etherscan-compatible API
+      const address = url.searchParams.get('address');
+      if (address !== PROXY) {
+        res.end(JSON.stringify({ status: '0', message: 'Contract source code not verified', result: null }));
+      } else if (url.searchParams.get('action') === 'getabi') {
+        res.end(JSON.stringify({ status: '1', message: 'OK', result: JSON.stringify(abi) }));
+      } else {
+        res.end(JSON.stringify({
+          status: '1',
+          message: 'OK',
+          result: [{ ContractName: 'TransparentUpgradeableProxy', ImplementationAddress: IMPLEMENTATION, IsProxy: 'true', ABI: '[]', SourceCode: '' }],
+        }));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should read contracts from Blockscout', async () => {
+    const client = new BlockscoutClient({ network: { name: 'devnet', chainId: 31337, explorerApiUrl: `${baseUrl}/api` } });
+
+    expect(await client.getContractAbi(PROXY)).toEqual(abi);
+    expect(await client.getContractAbi(UNVERIFIED)).toBeNull();
+    expect(await client.getContractInfo(PROXY)).toMatchObject({
+      name: 'TransparentUpgradeableProxy',
+      isVerified: true,
+      isProxy: true,
+      implementation: IMPLEMENTATION,
+    });
+    expect(requests.some((request) => request.includes('chainid'))).toBe(false);
+  });
+
+  it('should not send the Etherscan API key to Blockscout', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'networks-')), 'networks.json');
+    fs.writeFileSync(file, JSON.stringify({ mainnet: { explorerKind: 'blockscout', explorerApiUrl: `${baseUrl}/api` } }));
+    const registry = new NetworkRegistry();
+    registry.loadFile(file);
+
+    const previous = process.env.ETHERSCAN_API_KEY;
+    process.env.ETHERSCAN_API_KEY = 'etherscan-secret';
+    try {
+      const network = registry.resolve('mainnet');
+      expect(network.apiKeyEnv).toBeUndefined();
+
+      await createContractSource(network).getContractInfo(PROXY);
+      await new BlockscoutClient({ network: { name: 'devnet', chainId: 31337, explorerApiUrl: `${baseUrl}/api` } }).getContractAbi(PROXY);
+      expect(requests.length).toBeGreaterThan(0);
+      expect(requests.some((request) => request.includes('apikey') || request.includes('etherscan-secret'))).toBe(false);
+    } finally {
+      if (previous === undefined) {
+        delete process.env.ETHERSCAN_API_KEY;
+      } else {
+        process.env.ETHERSCAN_API_KEY = previous;
+      }
+    }
+  });
+
+  it('should read contracts from Sourcify', async () => {
+    const client = new SourcifyClient({ network: { name: 'devnet', chainId: 31337, explorerApiUrl: baseUrl } });
+
+    expect(await client.getContractAbi(PROXY)).toEqual(abi);
+    expect(await client.getImplementationAddress(PROXY)).toBe(IMPLEMENTATION);
+    expect(await client.getContractInfo(PROXY)).toMatchObject({ isProxy: true, implementationName: 'Vault' });
+    expect(await client.getContractInfo(UNVERIFIED)).toMatchObject({ name: 'Unknown Contract', isVerified: false });
+    expect(requests.filter((request) => request.startsWith(`/v2/contract/31337/${PROXY}`))).toHaveLength(1);
+  });
+});
@@ -1,6 +1,48 @@
 import { describe, it, expect } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  concatHex,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeFunctionData,
+  encodePacked,
+  parseAbi,
+  parseAbiParameters,
+  size,
+  type Hex,
+} from 'viem';
 import { MulticallDecoder } from '../src/decoder';
 
+const multicall3Abi = parseAbi([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) external payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+const erc20Abi = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+]);
+
+const aggregate3ValueAbi = parseAbi([
+  'function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) external payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+const tryAggregateAbi = parseAbi([
+  'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) external returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+const multiSendAbi = parseAbi([
+  'function multiSend(bytes transactions) external payable',
+]);
+
+const selfMulticallAbi = parseAbi([
+  'function multicall(uint256 deadline, bytes[] data) external payable returns (bytes[] results)',
+]);
+
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const SWAP_ROUTER = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+const RECIPIENT = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+
 describe('MulticallDecoder', () => {
   it('should decode the provided multicall data', async () => {
     const decoder = new MulticallDecoder({
@@ -70,4 +112,299 @@ describe('MulticallDecoder', () => {
       console.log(`Call ${i + 1}: target=${call.target}, selector=${call.callData.substring(0, 10)}`);
     });
   });
+
+  it('should recursively decode nested batches', async () => {
+    const decoder = new MulticallDecoder({ offline: true });
+
+    const transferData = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [RECIPIENT, 1000n],
+    });
+    const innerBatch = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[{ target: TOKEN, allowFailure: false, callData: transferData }]],
+    });
+    const outerBatch = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[{ target: MULTICALL3, allowFailure: false, callData: innerBatch }]],
+    });
+
+    const decodedCalls = await decoder.decodeMulticall(outerBatch);
+
+    expect(decodedCalls.length).toBe(1);
+    expect(decodedCalls[0].functionName).toBe('aggregate3');
+    expect(decodedCalls[0].children).toHaveLength(1);
+    expect(decodedCalls[0].children![0].target).toBe(TOKEN);
+    expect(decodedCalls[0].children![0].rawCallData).toBe(transferData);
+  });
+
+  it('should stop recursing at the configured depth', async () => {
+    const decoder = new MulticallDecoder({ offline: true, maxDepth: 0 });
+
+    const innerBatch = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[]],
+    });
+    const outerBatch = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[{ target: MULTICALL3, allowFailure: false, callData: innerBatch }]],
+    });
+
+    const decodedCalls = await decoder.decodeMulticall(outerBatch);
+
+    expect(decodedCalls[0].functionName).toBe('aggregate3');
+    expect(decodedCalls[0].children).toBeUndefined();
+  });
+
+  it('should parse Safe multiSend packed transactions', async () => {
+    const decoder = new MulticallDecoder({ offline: true });
+
+    const transferData = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [RECIPIENT, 1000n],
+    });
+    const packTransaction = (operation: number, to: Hex, value: bigint, data: Hex) =>
+      encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [operation, to, value, BigInt(size(data)), data]
+      );
+
+    const multiSendData = encodeFunctionData({
+      abi: multiSendAbi,
+      functionName: 'multiSend',
+      args: [
+        concatHex([
+          packTransaction(0, TOKEN, 0n, transferData),
+          packTransaction(1, MULTICALL3, 0n, transferData),
+          packTransaction(0, RECIPIENT, 10n ** 18n, '0x'),
+        ]),
+      ],
+    });
+
+    const calls = decoder.parseMulticallData(multiSendData);
+
+    expect(calls).toHaveLength(3);
+    expect(calls[0]).toEqual({ target: TOKEN, callData: transferData, operation: 'call', value: 0n, format: 'multiSend' });
+    expect(calls[1].operation).toBe('delegatecall');
+    expect(calls[1].target).toBe(MULTICALL3);
+    expect(calls[2]).toEqual({ target: RECIPIENT, callData: '0x', operation: 'call', value: 10n ** 18n, format: 'multiSend' });
+
+    const decodedCalls = await decoder.decodeMulticall(multiSendData);
+    expect(decodedCalls[1].operation).toBe('delegatecall');
+    expect(decodedCalls[2].functionName).toBe('receive');
+    expect(decodedCalls[2].value).toBe(10n ** 18n);
+  });
+
+  it('should reject truncated multiSend transactions', () => {
+    const decoder = new MulticallDecoder();
+
+    const multiSendData = encodeFunctionData({
+      abi: multiSendAbi,
+      functionName: 'multiSend',
+      args: ['0x00a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'],
+    });
+
+    expect(() => decoder.parseMulticallData(multiSendData)).toThrow('unknown format');
+  });
+
+  it('should parse self-call multicalls using the outer address', () => {
+    const decoder = new MulticallDecoder();
+
+    const multicallData = encodeFunctionData({
+      abi: selfMulticallAbi,
+      functionName: 'multicall',
+      args: [1700000000n, ['0x12210e8a', '0x49404b7c']],
+    });
+
+    expect(() => decoder.parseMulticallData(multicallData)).toThrow('--to');
+
+    const calls = decoder.parseMulticallData(multicallData, SWAP_ROUTER);
+
+    expect(calls).toHaveLength(2);
+    calls.forEach((call) => {
+      expect(call.target).toBe(SWAP_ROUTER);
+      expect(call.deadline).toBe(1700000000n);
+    });
+    expect(calls[0].callData).toBe('0x12210e8a');
+  });
+
+  it('should preserve per-call metadata', async () => {
+    const decoder = new MulticallDecoder({ offline: true });
+
+    const aggregate3ValueData = encodeFunctionData({
+      abi: aggregate3ValueAbi,
+      functionName: 'aggregate3Value',
+      args: [[
+        { target: TOKEN, allowFailure: true, value: 0n, callData: '0x12345678' },
+        { target: RECIPIENT, allowFailure: false, value: 5n * 10n ** 17n, callData: '0x' },
+      ]],
+    });
+
+    const calls = decoder.parseMulticallData(aggregate3ValueData);
+
+    expect(calls[0]).toMatchObject({ format: 'aggregate3Value', allowFailure: true, value: 0n });
+    expect(calls[1]).toMatchObject({ format: 'aggregate3Value', allowFailure: false, value: 5n * 10n ** 17n });
+
+    const decodedCalls = await decoder.decodeMulticall(aggregate3ValueData);
+    expect(decodedCalls[1]).toMatchObject({ functionName: 'receive', allowFailure: false, value: 5n * 10n ** 17n });
+
+    const tryAggregateData = encodeFunctionData({
+      abi: tryAggregateAbi,
+      functionName: 'tryAggregate',
+      args: [false, [{ target: TOKEN, callData: '0x12345678' }]],
+    });
+
+    expect(decoder.parseMulticallData(tryAggregateData)[0]).toMatchObject({
+      format: 'tryAggregate',
+      requireSuccess: false,
+    });
+  });
+
+  it('should decode per-call results and revert reasons', async () => {
+    const decoder = new MulticallDecoder({ offline: true, maxDepth: 0 });
+
+    const innerBatch = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[]],
+    });
+    const multicallData = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[
+        { target: MULTICALL3, allowFailure: true, callData: innerBatch },
+        { target: MULTICALL3, allowFailure: true, callData: innerBatch },
+      ]],
+    });
+
+    const innerResult = encodeAbiParameters(parseAbiParameters('(bool, bytes)[]'), [[[true, '0x1234']]]);
+    const revertData = encodeErrorResult({
+      abi: parseAbi(['error Error(string)']),
+      errorName: 'Error',
+      args: ['insufficient balance'],
+    });
+    const returnData = encodeAbiParameters(parseAbiParameters('(bool, bytes)[]'), [[
+      [true, innerResult],
+      [false, revertData],
+    ]]);
+
+    const decodedCalls = await decoder.decodeMulticallResult(multicallData, returnData);
+
+    expect(decodedCalls[0].result).toMatchObject({
+      success: true,
+      decoded: [[{ success: true, returnData: '0x1234' }]],
+    });
+    expect(decodedCalls[1].result).toMatchObject({
+      success: false,
+      revertReason: 'insufficient balance',
+    });
+
+    await expect(decoder.decodeMulticallResult(multicallData, encodeAbiParameters(parseAbiParameters('(bool, bytes)[]'), [[]])))
+      .rejects.toThrow('0 result(s)');
+  });
+
+  it('should decode a transaction fetched over JSON-RPC', async () => {
+    const transferData = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [RECIPIENT, 1000n],
+    });
+    const multicallData = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[{ target: TOKEN, allowFailure: false, callData: transferData }]],
+    });
+    const hash = `0x${'ab'.repeat(32)}`;
+
+    // Stand-in for a local node such as anvil
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body);
+        const result = request.method === 'eth_getTransactionByHash' && request.params[0] === hash
+          ? { hash, from: RECIPIENT, to: MULTICALL3, value: '0x0', input: multicallData, blockNumber: '0x10' }
+          : null;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const decoder = new MulticallDecoder({ offline: true, rpcUrl });
+      const { transaction, calls } = await decoder.decodeTransaction(hash);
+
+      expect(transaction.to).toBe(MULTICALL3);
+      expect(transaction.blockNumber).toBe(16n);
+      expect(calls).toHaveLength(1);
+      expect(calls[0]).toMatchObject({ target: TOKEN, format: 'aggregate3', rawCallData: transferData });
+
+      await expect(decoder.decodeTransaction(`0x${'cd'.repeat(32)}`)).rejects.toThrow('not found');
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should decode offline using the bundled signature database', async () => {
+    const decoder = new MulticallDecoder({ offline: true });
+
+    const transferData = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [RECIPIENT, 1000n],
+    });
+    const multicallData = encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [[{ target: TOKEN, allowFailure: false, callData: transferData }]],
+    });
+
+    const decodedCalls = await decoder.decodeMulticall(multicallData);
+
+    expect(decodedCalls[0].functionSignature).toBe('transfer(address,uint256)');
+    expect(decodedCalls[0].args).toEqual([RECIPIENT, 1000n]);
+  });
+
+  it('should name and type arguments, expanding tuples and arrays', async () => {
+    const routerAbi = parseAbi([
+      'struct Route { address[] path; address recipient; }',
+      'function swap(Route route, uint256 amountIn)',
+    ]);
+    const decoder = new MulticallDecoder({ offline: true });
+    decoder.registerAbi(routerAbi, SWAP_ROUTER);
+
+    const callData = encodeFunctionData({
+      abi: routerAbi,
+      functionName: 'swap',
+      args: [{ path: [TOKEN, RECIPIENT], recipient: RECIPIENT }, 5n],
+    });
+    const decoded = await decoder.decodeCall(SWAP_ROUTER, callData);
+
+    expect(decoded.params).toEqual([
+      {
+        name: 'route',
+        type: 'tuple',
+        components: [
+          {
+            name: 'path',
+            type: 'address[]',
+            components: [
+              { name: '[0]', type: 'address', value: TOKEN },
+              { name: '[1]', type: 'address', value: RECIPIENT },
+            ],
+          },
+          { name: 'recipient', type: 'address', value: RECIPIENT },
+        ],
+      },
+      { name: 'amountIn', type: 'uint256', value: 5n },
+    ]);
+  });
 });
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskCache } from '../src/disk-cache';
+
+describe('DiskCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'multicall-decoder-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', () => {
+    const writer = new DiskCache({ directory });
+    writer.set('abi', '1:0xabc', [{ type: 'function', name: 'foo' }]);
+    writer.flush();
+
+    const cache = new DiskCache({ directory });
+
+    expect(cache.get('abi', '1:0xabc')).toEqual([{ type: 'function', name: 'foo' }]);
+    expect(cache.get('abi', '1:0xdef')).toBeUndefined();
+  });
+
+  it('should apply separate TTLs to negative results', () => {
+    const cache = new DiskCache({ directory, negativeTtl: 0 });
+
+    cache.setNegative('contract', '1:0xabc');
+    cache.setNegative('selector', '0x12345678');
+    expect(cache.get('contract', '1:0xabc')).toBeUndefined();
+
+    const longLived = new DiskCache({ directory: path.join(directory, 'other') });
+    longLived.setNegative('contract', '1:0xabc');
+    expect(longLived.get('contract', '1:0xabc')).toBeNull();
+
+    cache.flush();
+    longLived.flush();
+  });
+
+  it('should batch writes and replace cache files whole', () => {
+    const cache = new DiskCache({ directory });
+    cache.set('selector', '0xa9059cbb', []);
+    cache.setNegative('selector', '0x12345678');
+    expect(fs.existsSync(path.join(directory, 'selector.json'))).toBe(false);
+
+    cache.flush();
+    expect(fs.readdirSync(directory)).toEqual(['selector.json']);
+    expect(Object.keys(JSON.parse(fs.readFileSync(path.join(directory, 'selector.json'), 'utf8')))).toEqual([
+      '0xa9059cbb',
+      '0x12345678',
+    ]);
+  });
+
+  it('should warn about unreadable cache files', () => {
+    fs.writeFileSync(path.join(directory, 'abi.json'), '{"1:0xabc": {"value"');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const cache = new DiskCache({ directory });
+      expect(cache.get('abi', '1:0xabc')).toBeUndefined();
+      expect(error).toHaveBeenCalledWith(expect.stringContaining(`Ignoring unreadable cache ${path.join(directory, 'abi.json')}`));
+
+      // Missing files are just empty
+      expect(cache.get('contract', '1:0xabc')).toBeUndefined();
+      expect(error).toHaveBeenCalledTimes(1);
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  it('should report stats, export and clear', () => {
+    const cache = new DiskCache({ directory });
+    cache.set('selector', '0xa9059cbb', [{ name: 'transfer', signature: 'transfer(address,uint256)' }]);
+    cache.set('selector', '0x00000000', [], 0);
+    cache.setNegative('abi', '1:0xabc');
+
+    const stats = Object.fromEntries(cache.stats().map((entry) => [entry.namespace, entry]));
+    expect(stats.selector).toMatchObject({ entries: 2, expired: 1, negative: 0 });
+    expect(stats.abi).toMatchObject({ entries: 1, negative: 1 });
+
+    expect(Object.keys(cache.export().selector)).toEqual(['0xa9059cbb']);
+
+    cache.clear('selector');
+    expect(new DiskCache({ directory }).get('selector', '0xa9059cbb')).toBeUndefined();
+    expect(new DiskCache({ directory }).get('abi', '1:0xabc')).toBeNull();
+
+    cache.clear();
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFunctionData, parseAbi } from 'viem';
+import { MulticallDecoder } from '../src/decoder';
+import { MulticallEncoder, parseBatchSpec, type EncodeFormat } from '../src/encoder';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const RECIPIENT = '0x1111111254EEB25477B68fb85Ed929f73A960582';
+
+const erc20Abi = parseAbi(['function approve(address spender, uint256 amount) returns (bool)']);
+
+const approveData = encodeFunctionData({
+  abi: erc20Abi,
+  functionName: 'approve',
+  args: [RECIPIENT, 5n],
+});
+
+describe('MulticallEncoder', () => {
+  const encoder = new MulticallEncoder();
+  const decoder = new MulticallDecoder({ offline: true });
+
+  const roundTrip = async (format: EncodeFormat, options: { value?: boolean; allowFailure?: boolean; operation?: boolean } = {}) => {
+    const calls = [
+      encoder.encodeCall({
+        target: USDC.toLowerCase(),
+        function: 'transfer(address to, uint256 amount)',
+        args: [RECIPIENT, '1000000'],
+        allowFailure: options.allowFailure ? true : undefined,
+      }),
+      encoder.encodeCall({
+        target: WETH,
+        data: approveData,
+        value: options.value ? '1000' : undefined,
+        operation: options.operation ? 'delegatecall' : undefined,
+      }),
+    ];
+
+    const encoded = encoder.encodeCalls(format, calls);
+    const decoded = await decoder.decodeMulticall(encoded.data);
+
+    expect(decoded).toHaveLength(2);
+    expect(decoded.map((call) => call.format)).toEqual([format, format]);
+    expect(decoded.map((call) => call.target)).toEqual([USDC, WETH]);
+    expect(decoded.map((call) => call.rawCallData)).toEqual(calls.map((call) => call.callData));
+    expect(decoded[0].functionName).toBe('transfer');
+    expect(decoded[0].args).toEqual([RECIPIENT, 1000000n]);
+
+    return { encoded, decoded };
+  };
+
+  it('round-trips aggregate', async () => {
+    await roundTrip('aggregate');
+  });
+
+  it('round-trips aggregate3 with allowFailure', async () => {
+    const { decoded } = await roundTrip('aggregate3', { allowFailure: true });
+    expect(decoded.map((call) => call.allowFailure)).toEqual([true, false]);
+  });
+
+  it('round-trips aggregate3Value with values', async () => {
+    const { encoded, decoded } = await roundTrip('aggregate3Value', { value: true, allowFailure: true });
+    expect(decoded.map((call) => call.value)).toEqual([0n, 1000n]);
+    expect(decoded.map((call) => call.allowFailure)).toEqual([true, false]);
+    expect(encoded.value).toBe(1000n);
+  });
+
+  it('round-trips tryAggregate', async () => {
+    const calls = [encoder.encodeCall({ target: WETH, data: approveData })];
+    const decoded = await decoder.decodeMulticall(encoder.encodeCalls('tryAggregate', calls, { requireSuccess: false }).data);
+    expect(decoded[0].requireSuccess).toBe(false);
+    expect(decoded[0].rawCallData).toBe(approveData);
+  });
+
+  it('round-trips multiSend with values and operations', async () => {
+    const { decoded } = await roundTrip('multiSend', { value: true, operation: true });
+    expect(decoded.map((call) => call.value)).toEqual([0n, 1000n]);
+    expect(decoded.map((call) => call.operation)).toEqual(['call', 'delegatecall']);
+  });
+
+  it('rejects options the format cannot carry', () => {
+    const call = encoder.encodeCall({ target: WETH, function: 'deposit()', value: 1n });
+    expect(() => encoder.encodeCalls('aggregate3', [call])).toThrow(/value is only supported/);
+    expect(() => encoder.encodeCalls('aggregate3Value', [call])).not.toThrow();
+  });
+
+  it('encodes a YAML spec with typed arguments', async () => {
+    const spec = parseBatchSpec(`
+format: aggregate3
+calls:
+  - target: ${USDC}
+    function: function approve(address spender, uint256 amount)
+    args: [${RECIPIENT}, 115792089237316195423570985008687907853269984665640564039457584007913129639935]
+  - target: ${WETH}
+    function: exactInputSingle((address tokenIn, uint24 fee, bool unwrap) params)
+    args:
+      - { tokenIn: ${USDC}, fee: 500, unwrap: true }
+    allowFailure: true
+`);
+
+    const decoded = await decoder.decodeMulticall(encoder.encode(spec).data);
+    expect(decoded[0].args).toEqual([RECIPIENT, 2n ** 256n - 1n]);
+    expect(decoded[1].allowFailure).toBe(true);
+    expect(decoded[1].rawCallData).toBe(
+      encodeFunctionData({
+        abi: parseAbi(['function exactInputSingle((address tokenIn, uint24 fee, bool unwrap) params)']),
+        functionName: 'exactInputSingle',
+        args: [{ tokenIn: USDC, fee: 500, unwrap: true }],
+      })
+    );
+  });
+
+  it('reports the failing call of a spec', () => {
+    const spec = parseBatchSpec('[{ target: "0x01", function: "deposit()" }]');
+    expect(() => encoder.encode(spec)).toThrow(/Call 0: Invalid target address/);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { encodeErrorResult, parseAbi } from 'viem';
+import { AbiRegistry } from '../src/abi-registry';
+import { MulticallDecoder } from '../src/decoder';
+import { ErrorDecoder, decodeErrorData } from '../src/error-decoder';
+import { SignatureDecoder } from '../src/signature-decoder';
+import { LocalSignatureProvider } from '../src/signature-providers';
+import type { ContractSource } from '../src/contract-source';
+
+const VAULT = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+const ACCOUNT = '0x1111111254EEB25477B68fb85Ed929f73A960582';
+
+const vaultAbi = parseAbi(['error InsufficientShares(address owner, uint256 shares, uint256 requested)']);
+
+const insufficientShares = encodeErrorResult({
+  abi: vaultAbi,
+  errorName: 'InsufficientShares',
+  args: [ACCOUNT, 1n, 2n],
+});
+
+describe('decodeErrorData', () => {
+  it('should decode Error(string) and Panic(uint256)', () => {
+    const error = encodeErrorResult({ abi: parseAbi(['error Error(string)']), errorName: 'Error', args: ['not owner'] });
+    expect(decodeErrorData(error)).toMatchObject({ kind: 'error', reason: 'not owner', source: 'builtin' });
+
+    const panic = encodeErrorResult({ abi: parseAbi(['error Panic(uint256)']), errorName: 'Panic', args: [0x32n] });
+    expect(decodeErrorData(panic)).toMatchObject({
+      kind: 'panic',
+      reason: 'Panic(0x32): array index out of bounds',
+      panicMeaning: 'array index out of bounds',
+    });
+
+    expect(decodeErrorData('0x')).toMatchObject({ kind: 'empty', reason: 'reverted without reason' });
+  });
+
+  it('should decode custom errors from an ABI', () => {
+    const decoded = decodeErrorData(insufficientShares, vaultAbi);
+
+    expect(decoded).toMatchObject({
+      kind: 'custom',
+      name: 'InsufficientShares',
+      signature: 'InsufficientShares(address,uint256,uint256)',
+      args: [ACCOUNT, 1n, 2n],
+      reason: `InsufficientShares(${ACCOUNT}, 1, 2)`,
+      source: 'abi',
+    });
+    expect(decoded.params?.map((param) => param.name)).toEqual(['owner', 'shares', 'requested']);
+    expect(decodeErrorData(insufficientShares)).toMatchObject({ kind: 'unknown', reason: 'unknown error 0x68b65f11' });
+  });
+});
+
+describe('ErrorDecoder', () => {
+  it('should use the target ABI, then any registered ABI', async () => {
+    const registry = new AbiRegistry();
+    registry.register(vaultAbi, VAULT);
+    const decoder = new ErrorDecoder({ abiRegistry: registry });
+    expect(await decoder.decode(insufficientShares, VAULT)).toMatchObject({ name: 'InsufficientShares', source: 'abi' });
+
+    const unbound = new AbiRegistry();
+    unbound.register(vaultAbi);
+    expect(await new ErrorDecoder({ abiRegistry: unbound }).decode(insufficientShares, VAULT)).toMatchObject({
+      name: 'InsufficientShares',
+      source: 'registry',
+    });
+  });
+
+  it('should fall back to the signature databases', async () => {
+    const signatureDecoder = new SignatureDecoder({
+      providers: [new LocalSignatureProvider(['InsufficientShares(address,uint256,uint256)'])],
+    });
+    const decoder = new ErrorDecoder({ signatureDecoder });
+
+    const decoded = await decoder.decode(insufficientShares);
+    expect(decoded).toMatchObject({ kind: 'custom', args: [ACCOUNT, 1n, 2n], source: 'local' });
+    expect(decoded.params?.[0].name).toBe('');
+
+    // Bundled signatures cover common library errors
+    const bundled = encodeErrorResult({
+      abi: parseAbi(['error OwnableUnauthorizedAccount(address account)']),
+      errorName: 'OwnableUnauthorizedAccount',
+      args: [ACCOUNT],
+    });
+    expect((await new ErrorDecoder().decode(bundled)).reason).toBe(`OwnableUnauthorizedAccount(${ACCOUNT})`);
+    // ...which are not function signatures
+    expect(await new LocalSignatureProvider().lookupSelector(bundled.slice(0, 10))).toEqual([]);
+  });
+
+  it('should decode failed batch results with the target ABI', async () => {
+    // Verified ABI holding only the error, the function itself comes from the signature database
+    const contractSource: ContractSource = {
+      name: 'stub',
+      getContractAbi: async (address) => (address.toLowerCase() === VAULT.toLowerCase() ? vaultAbi : null),
+      getContractInfo: async (address) => ({ name: 'Unknown Contract', address, isVerified: false, isProxy: false }),
+      getImplementationAddress: async () => null,
+    };
+    const decoder = new MulticallDecoder({
+      contractSource,
+      signatureProviders: [new LocalSignatureProvider(['withdraw(uint256)'])],
+    });
+
+    const result = await decoder.decodeCallResult(VAULT, '0x2e1a7d4d' + '0'.repeat(63) + '2', false, insufficientShares);
+    expect(result.revertReason).toBe(`InsufficientShares(${ACCOUNT}, 1, 2)`);
+  });
+});
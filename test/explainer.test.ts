@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { DiskCache } from '../src/disk-cache';
+import { Explainer, parseExplanation } from '../src/explainer';
+import {
+  CliExplainerBackend,
+  HttpExplainerBackend,
+  TemplateExplainerBackend,
+  createExplainerBackend,
+} from '../src/explainer-backends';
+import type { DecodedCall } from '../src/types';
+
+const call: DecodedCall = {
+  target: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  targetLabel: 'USDC',
+  functionName: 'transfer',
+  functionSignature: 'transfer(address,uint256)',
+  args: ['0x1111111254EEB25477B68fb85Ed929f73A960582', 1000000n],
+  params: [
+    { name: 'to', type: 'address', value: '0x1111111254EEB25477B68fb85Ed929f73A960582' },
+    { name: 'amount', type: 'uint256', value: 1000000n, formatted: '1 USDC' },
+  ],
+  rawCallData: '0xa9059cbb',
+};
+
+describe('CliExplainerBackend', () => {
+  it('should pass the prompt over stdin untouched', async () => {
+    const backend = new CliExplainerBackend({ command: 'node', args: ['-e', 'process.stdin.pipe(process.stdout)'] });
+    const prompt = 'costs $HOME `whoami` "quoted" \\ ' + 'x'.repeat(200_000);
+
+    expect(await backend.explain({ prompt, calls: [] })).toBe(prompt);
+  });
+
+  it('should report timeouts and failures', async () => {
+    const slow = new CliExplainerBackend({ command: 'node', args: ['-e', 'setTimeout(() => {}, 10000)'], timeout: 200 });
+    await expect(slow.explain({ prompt: '', calls: [] })).rejects.toThrow('node timed out after 0.2s');
+
+    const failing = new CliExplainerBackend({ command: 'node', args: ['-e', 'console.error("no credits"); process.exit(3)'] });
+    await expect(failing.explain({ prompt: '', calls: [] })).rejects.toThrow('exited with code 3: no credits');
+
+    const missing = new CliExplainerBackend({ command: 'multicall-decoder-missing-cli' });
+    expect(await missing.isAvailable()).toBe(false);
+  });
+});
+
+describe('HttpExplainerBackend', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: any[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+        res.setHeader('Content-Type', 'application/json');
+        const content = '```json\n{"summary": "A transfer.", "calls": [{"call": 1, "explanation": "Sends 1 USDC"}]}\n```';
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should post the prompt to /chat/completions', async () => {
+    const backend = new HttpExplainerBackend({ baseUrl, model: 'local-model', apiKey: 'secret' });
+    const explainer = new Explainer(backend);
+
+    const explanation = await explainer.explainCall(call);
+
+    expect(explanation).toEqual({
+      summary: 'A transfer.',
+      calls: [{ call: '1', explanation: 'Sends 1 USDC' }],
+      relationships: [],
+      risks: [],
+      backend: 'http',
+    });
+    expect(requests[0]).toMatchObject({ url: '/v1/chat/completions', authorization: 'Bearer secret' });
+    expect(requests[0].body.model).toBe('local-model');
+    expect(requests[0].body.messages[0].content).toContain('transfer(address,uint256)');
+  });
+
+  it('should reuse cached explanations of the same calls', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'multicall-decoder-cache-'));
+    const cache = new DiskCache({ directory });
+    const explainer = new Explainer(new HttpExplainerBackend({ baseUrl }), { cache });
+    const before = requests.length;
+
+    const first = await explainer.explainMulticall([call]);
+    cache.flush();
+    const again = await new Explainer(new HttpExplainerBackend({ baseUrl }), { cache: new DiskCache({ directory }) })
+      .explainMulticall([call]);
+    await explainer.explainMulticall([{ ...call, args: [call.args[0], 2000000n] }]);
+    // Another model gets its own explanation
+    await new Explainer(new HttpExplainerBackend({ baseUrl, model: 'other-model' }), { cache }).explainMulticall([call]);
+
+    expect(again).toEqual(first);
+    expect(requests.length - before).toBe(3);
+    cache.flush();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should not be available without a base URL', async () => {
+    const previous = process.env.EXPLAINER_BASE_URL;
+    delete process.env.EXPLAINER_BASE_URL;
+    expect(await new HttpExplainerBackend().isAvailable()).toBe(false);
+    if (previous !== undefined) {
+      process.env.EXPLAINER_BASE_URL = previous;
+    }
+  });
+});
+
+describe('parseExplanation', () => {
+  it('should reject responses that miss the schema', () => {
+    expect(() => parseExplanation('## Overview')).toThrow('not a JSON object');
+    expect(() => parseExplanation('{"calls": []}')).toThrow('"summary" must be a non-empty string');
+    expect(() => parseExplanation('{"summary": "x", "calls": [], "risks": "none"}')).toThrow('"risks" must be an array of strings');
+  });
+});
+
+describe('TemplateExplainerBackend', () => {
+  it('should describe calls without a model', async () => {
+    const approve: DecodedCall = {
+      ...call,
+      functionName: 'approve',
+      functionSignature: 'approve(address,uint256)',
+      format: 'aggregate3',
+    };
+    const swap: DecodedCall = { ...call, target: '0x1111111254EEB25477B68fb85Ed929f73A960582', targetLabel: undefined };
+    const output = await new TemplateExplainerBackend().explain({ prompt: '', calls: [approve, swap] });
+    const explanation = parseExplanation(output);
+
+    expect(explanation.summary).toBe('2 call(s) batched with aggregate3.');
+    expect(explanation.calls[0]).toEqual({
+      call: '1',
+      explanation: 'Calls `approve(address,uint256)` on USDC (0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48) ' +
+        'with to (address): 0x1111111254EEB25477B68fb85Ed929f73A960582; amount (uint256): 1 USDC',
+    });
+    expect(explanation.relationships).toEqual([
+      'Call 1 lets 0x1111111254EEB25477B68fb85Ed929f73A960582 spend tokens of 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48, which call 2 then calls',
+    ]);
+  });
+
+  it('should be created by name', () => {
+    expect(createExplainerBackend('template').name).toBe('template');
+    expect(createExplainerBackend('claude').name).toBe('claude');
+    expect(() => createExplainerBackend('gpt')).toThrow('Unknown explainer "gpt"');
+  });
+});
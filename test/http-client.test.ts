@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { EtherscanClient } from '../src/etherscan-client';
+import { HttpClient, RateLimiter, isExplorerRateLimited } from '../src/http-client';
+
+const PROXY = '0x0298e0c16097c3c2c3fc200f901ae54ae7659f99';
+const IMPLEMENTATION = '0x1111111254eeb25477b68fb85ed929f73a960582';
+
+describe('HttpClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  const hits: Map<string, number> = new Map();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      const count = (hits.get(req.url!) ?? 0) + 1;
+      hits.set(req.url!, count);
+      res.setHeader('Content-Type', 'application/json');
+
+      // Rate limited twice, by status code or in the body, then served
+      if (url.pathname === '/throttled' && count <= 2) {
+        res.statusCode = 429;
+        res.end(JSON.stringify({ message: 'Too Many Requests' }));
+      } else if (url.pathname === '/api' && count <= 2) {
+        res.end(JSON.stringify({ status: '0', message: 'NOTOK', result: 'Max rate limit reached' }));
+      } else if (url.pathname === '/api') {
+        const address = url.searchParams.get('address');
+        res.end(JSON.stringify({
+          status: '1',
+          message: 'OK',
+          result: [{ ContractName: address === PROXY ? 'TransparentUpgradeableProxy' : 'Vault', Implementation: address === PROXY ? IMPLEMENTATION : '' }],
+        }));
+      } else {
+        setTimeout(() => res.end(JSON.stringify({ path: url.pathname, count })), 20);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should retry rate-limited requests with backoff', async () => {
+    const http = new HttpClient({ retryDelay: 10 });
+    const started = Date.now();
+
+    expect(await http.get(`${baseUrl}/throttled`)).toEqual({ path: '/throttled', count: 3 });
+    // 10ms then 20ms of backoff
+    expect(Date.now() - started).toBeGreaterThanOrEqual(30);
+
+    await expect(new HttpClient({ retries: 0 }).get(`${baseUrl}/throttled`, { again: 1 })).rejects.toMatchObject({
+      response: { status: 429 },
+    });
+  });
+
+  it('should share identical requests in flight', async () => {
+    const http = new HttpClient();
+
+    const responses = await Promise.all([
+      http.get(`${baseUrl}/selector`, { id: 1, filter: true }),
+      http.get(`${baseUrl}/selector`, { filter: true, id: 1 }),
+      http.get(`${baseUrl}/selector`, { id: 2 }),
+    ]);
+
+    expect(responses.map((response) => response.count)).toEqual([1, 1, 1]);
+    // Completed requests are not cached
+    expect((await http.get(`${baseUrl}/selector`, { id: 1, filter: true })).count).toBe(2);
+  });
+
+  it('should pace requests with a token bucket', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 2 });
+    const started = Date.now();
+
+    await Promise.all([1, 2, 3, 4].map(() => limiter.acquire()));
+    // Two tokens up front, then one every 50ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should retry explorer rate limits and fetch each address once', async () => {
+    const client = new EtherscanClient({
+      network: { name: 'devnet', chainId: 31337, explorerApiUrl: `${baseUrl}/api` },
+      httpClient: new HttpClient({ retryDelay: 10, isRateLimited: isExplorerRateLimited }),
+    });
+
+    const [info, implementation] = await Promise.all([
+      client.getContractInfo(PROXY),
+      client.getImplementationAddress(PROXY),
+    ]);
+
+    expect(info).toMatchObject({ name: 'TransparentUpgradeableProxy', isProxy: true, implementationName: 'Vault' });
+    expect(implementation).toBe(IMPLEMENTATION);
+    expect([...hits.entries()].filter(([url]) => url.includes(PROXY)).map(([, count]) => count)).toEqual([3]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import type { Explanation } from '../src/explainer';
+import { toJson, toJsonOutput } from '../src/json-output';
+import type { SimulationResult } from '../src/simulator';
+import type { DecodedCall } from '../src/types';
+
+const call: DecodedCall = {
+  target: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  functionName: 'transfer',
+  functionSignature: 'transfer(address,uint256)',
+  args: ['0x1111111254EEB25477B68fb85Ed929f73A960582', 1000000n],
+  rawCallData: '0xa9059cbb',
+};
+
+const simulation: SimulationResult = { block: 'latest', success: true, returnData: '0x', gasUsed: 21000n };
+const explanation: Explanation = { summary: 'Transfers 1 USDC.', calls: [], relationships: [], risks: [], backend: 'template' };
+
+describe('toJsonOutput', () => {
+  it('should keep the calls as they are without a simulation or explanation', () => {
+    expect(toJsonOutput([call])).toEqual([call]);
+    expect(toJsonOutput(call)).toEqual(call);
+    expect(toJson(toJsonOutput([call]), 0)).toBe(
+      '[{"target":"0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48","functionName":"transfer","functionSignature":"transfer(address,uint256)",'
+      + '"args":["0x1111111254EEB25477B68fb85Ed929f73A960582","1000000"],"rawCallData":"0xa9059cbb"}]'
+    );
+  });
+
+  it('should wrap the calls with the parts that were produced', () => {
+    expect(toJsonOutput([call], { simulation })).toEqual({ calls: [call], simulation });
+    expect(toJsonOutput([call], { explanation })).toEqual({ calls: [call], explanation });
+    expect(toJsonOutput([call], { simulation, explanation })).toEqual({ calls: [call], simulation, explanation });
+    // decode-call uses the same shape as decode
+    expect(toJsonOutput(call, { explanation })).toEqual({ calls: [call], explanation });
+  });
+});
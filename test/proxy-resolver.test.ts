@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { encodeAbiParameters, encodeFunctionData, pad, parseAbi, parseAbiParameters } from 'viem';
+import { MulticallDecoder } from '../src/decoder';
+import { ProxyResolver } from '../src/proxy-resolver';
+import { RpcClient } from '../src/rpc-client';
+
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+
+const PROXY = '0x1000000000000000000000000000000000000001';
+const IMPLEMENTATION = '0x1000000000000000000000000000000000000002';
+const BEACON_PROXY = '0x1000000000000000000000000000000000000003';
+const BEACON = '0x1000000000000000000000000000000000000004';
+const DIAMOND = '0x1000000000000000000000000000000000000005';
+const FACETS = ['0x1000000000000000000000000000000000000006', '0x1000000000000000000000000000000000000007'] as const;
+const PLAIN = '0x1000000000000000000000000000000000000008';
+
+const vaultAbi = parseAbi(['function harvest(uint256 minOut) returns (uint256)']);
+
+// Stand-in for a node holding a few proxies
+function handle(request: any): unknown {
+  if (request.method === 'eth_getStorageAt') {
+    const [address, slot] = request.params;
+    if (address === PROXY && slot === EIP1967_IMPLEMENTATION_SLOT) {
+      return pad(IMPLEMENTATION);
+    }
+    if (address === BEACON_PROXY && slot === EIP1967_BEACON_SLOT) {
+      return pad(BEACON);
+    }
+    return pad('0x0');
+  }
+
+  if (request.method === 'eth_call') {
+    const { to } = request.params[0];
+    if (to === BEACON) {
+      return pad(IMPLEMENTATION);
+    }
+    if (to === DIAMOND) {
+      return encodeAbiParameters(parseAbiParameters('address[]'), [[...FACETS]]);
+    }
+    throw new Error('execution reverted');
+  }
+
+  return null;
+}
+
+describe('ProxyResolver', () => {
+  let server: Server;
+  let rpcUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body);
+        let response;
+        try {
+          response = { jsonrpc: '2.0', id: request.id, result: handle(request) };
+        } catch (error: any) {
+          response = { jsonrpc: '2.0', id: request.id, error: { code: 3, message: error.message } };
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(response));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should resolve EIP-1967, beacon and Diamond proxies from storage', async () => {
+    const resolver = new ProxyResolver({ rpcClient: new RpcClient({ rpcUrl }) });
+
+    expect(await resolver.resolve(PROXY)).toEqual({ kind: 'eip1967', implementations: [IMPLEMENTATION] });
+    expect(await resolver.resolve(BEACON_PROXY)).toEqual({
+      kind: 'beacon',
+      implementations: [IMPLEMENTATION],
+      beacon: BEACON,
+    });
+    expect(await resolver.resolve(DIAMOND)).toEqual({ kind: 'diamond', implementations: [...FACETS] });
+    expect(await resolver.resolve(PLAIN)).toBeNull();
+  });
+
+  it('should decode proxy calls with the implementation ABI', async () => {
+    const decoder = new MulticallDecoder({ rpcUrl, offline: true });
+    decoder.registerAbi(vaultAbi, IMPLEMENTATION);
+
+    const callData = encodeFunctionData({ abi: vaultAbi, functionName: 'harvest', args: [42n] });
+    const decoded = await decoder.decodeCall(PROXY, callData);
+
+    expect(decoded.target).toBe(PROXY);
+    expect(decoded.functionSignature).toBe('harvest(uint256)');
+    expect(decoded.args).toEqual([42n]);
+
+    const result = await decoder.decodeCallResult(PROXY, callData, true, pad('0x7'));
+    expect(result.decoded).toEqual([7n]);
+  });
+});
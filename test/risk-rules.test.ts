@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { maxUint256 } from 'viem';
+import { RiskAnalyzer, hasFindingsAtOrAbove } from '../src/risk-rules';
+import type { ContractInfo } from '../src/contract-source';
+import type { RpcClient } from '../src/rpc-client';
+import type { DecodedCall } from '../src/types';
+
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const SPENDER = '0x1111111254EEB25477B68fb85Ed929f73A960582';
+const EOA = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+
+function call(functionSignature: string, args: any[], overrides: Partial<DecodedCall> = {}): DecodedCall {
+  return {
+    target: TOKEN,
+    functionName: functionSignature.slice(0, functionSignature.indexOf('(')),
+    functionSignature,
+    args,
+    rawCallData: '0x12345678',
+    ...overrides,
+  };
+}
+
+// Only EOA has no code
+const rpcClient = {
+  getCode: async (address: string) => (address.toLowerCase() === EOA.toLowerCase() ? '0x' : '0x6080'),
+} as unknown as RpcClient;
+
+describe('RiskAnalyzer', () => {
+  it('should report the built-in rules on nested calls', async () => {
+    const calls = [
+      call('approve(address,uint256)', [SPENDER, maxUint256]),
+      call('approve(address,uint256)', [SPENDER, 1000n]),
+      call('execTransaction(address)', [TOKEN], {
+        children: [
+          call('setApprovalForAll(address,bool)', [SPENDER, true]),
+          call('upgradeToAndCall(address,bytes)', [SPENDER, '0x']),
+          call('transferOwnership(address)', [EOA], { operation: 'delegatecall' }),
+        ],
+      }),
+      call('', [], { target: EOA, functionName: 'transfer', functionSignature: 'ETH transfer', rawCallData: '0x', value: 10n ** 18n }),
+    ];
+
+    const findings = await new RiskAnalyzer({ rpcClient }).analyze(calls);
+
+    expect(findings.map((finding) => [finding.call, finding.rule, finding.severity])).toEqual([
+      ['1', 'unlimited-approval', 'high'],
+      ['3.1', 'approval-for-all', 'high'],
+      ['3.2', 'proxy-upgrade', 'critical'],
+      ['3.3', 'ownership-change', 'high'],
+      ['3.3', 'delegatecall', 'high'],
+      ['4', 'eth-to-eoa', 'medium'],
+    ]);
+    expect(calls[0].risks).toHaveLength(1);
+    expect(calls[1].risks).toBeUndefined();
+    expect(findings[5].message).toContain('1 ETH');
+  });
+
+  it('should report permits and unverified contracts', async () => {
+    const permit = call('permit(address,address,uint256,uint256,uint8,bytes32,bytes32)', [EOA, SPENDER, 1n, 0n, 27, '0x', '0x']);
+    const contractInfo = new Map<string, ContractInfo>([
+      [TOKEN.toLowerCase(), { name: 'Unknown Contract', address: TOKEN, isVerified: false, isProxy: false }],
+    ]);
+
+    const findings = await new RiskAnalyzer({ rpcClient, contractInfo }).analyze([permit]);
+
+    expect(findings.map((finding) => finding.rule)).toEqual(['permit', 'unverified-contract']);
+    expect(findings[0].message).toContain(SPENDER);
+  });
+
+  it('should apply allow-lists and severity overrides from a config file', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'risk-rules-')), 'risk-rules.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        allowedSpenders: [SPENDER.toLowerCase()],
+        severity: { delegatecall: 'off', 'ownership-change': 'critical' },
+      })
+    );
+
+    const calls = [
+      call('approve(address,uint256)', [SPENDER, maxUint256]),
+      call('transferOwnership(address)', [EOA], { operation: 'delegatecall' }),
+    ];
+    const findings = await new RiskAnalyzer({ config: RiskAnalyzer.loadConfig(file) }).analyze(calls);
+
+    expect(findings.map((finding) => [finding.rule, finding.severity])).toEqual([['ownership-change', 'critical']]);
+    expect(hasFindingsAtOrAbove(findings, 'critical')).toBe(true);
+    expect(hasFindingsAtOrAbove([], 'info')).toBe(false);
+
+    fs.writeFileSync(file, JSON.stringify({ severity: { delegatecall: 'severe' } }));
+    expect(() => RiskAnalyzer.loadConfig(file)).toThrow('invalid severity "severe"');
+  });
+});
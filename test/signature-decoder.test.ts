@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { SignatureDecoder } from '../src/signature-decoder';
+import { LocalSignatureProvider, type SignatureProvider } from '../src/signature-providers';
+
+function staticProvider(name: string, signatures: string[], local = false): SignatureProvider {
+  return {
+    name,
+    local,
+    lookupSelector: async () => signatures.map((signature) => ({ name: signature.split('(')[0], signature, source: name })),
+  };
+}
+
+describe('SignatureDecoder', () => {
+  it('should resolve common selectors from the bundled database', async () => {
+    const decoder = new SignatureDecoder({ providers: [new LocalSignatureProvider()] });
+
+    const signatures = await decoder.lookupSelector('0xa9059cbb');
+
+    expect(signatures).toEqual([{ name: 'transfer', signature: 'transfer(address,uint256)', source: 'local' }]);
+  });
+
+  it('should merge provider results in order without duplicates', async () => {
+    const failing: SignatureProvider = {
+      name: 'failing',
+      local: false,
+      lookupSelector: async () => {
+        throw new Error('network down');
+      },
+    };
+    const decoder = new SignatureDecoder({
+      providers: [
+        staticProvider('first', ['foo(uint256)', 'bar(address)']),
+        failing,
+        staticProvider('second', ['bar(address)', 'baz()']),
+      ],
+    });
+
+    const signatures = await decoder.lookupSelector('0x12345678');
+
+    expect(signatures.map((sig) => `${sig.source}:${sig.signature}`)).toEqual([
+      'first:foo(uint256)',
+      'first:bar(address)',
+      'second:baz()',
+    ]);
+  });
+
+  it('should only query local providers when offline', async () => {
+    const decoder = new SignatureDecoder({
+      offline: true,
+      providers: [staticProvider('remote', ['remote()']), staticProvider('bundled', ['bundled()'], true)],
+    });
+
+    const signatures = await decoder.lookupSelector('0x12345678');
+
+    expect(signatures.map((sig) => sig.signature)).toEqual(['bundled()']);
+  });
+});
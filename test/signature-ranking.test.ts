@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFunctionData, parseAbi } from 'viem';
+import { isAmbiguous, rankSignatureCandidates } from '../src/signature-ranking';
+import { MulticallDecoder } from '../src/decoder';
+import { LocalSignatureProvider } from '../src/signature-providers';
+
+const erc20Abi = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
+
+const RECIPIENT = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+// Both share the 0xa9059cbb selector
+const LOOKALIKE = 'many_msg_babbage(bytes1)';
+
+const transferData = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [RECIPIENT, 1000n] });
+
+describe('rankSignatureCandidates', () => {
+  it('should rank round-trip decodings above collisions that leave trailing bytes', () => {
+    const candidates = rankSignatureCandidates(transferData, [
+      { name: 'many_msg_babbage', signature: LOOKALIKE, source: '4byte', id: 1 },
+      { name: 'transfer', signature: 'transfer(address,uint256)', source: '4byte', id: 145 },
+    ]);
+
+    expect(candidates.map((candidate) => candidate.signature)).toEqual(['transfer(address,uint256)', LOOKALIKE]);
+    expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+    expect(candidates[0].args).toEqual([RECIPIENT, 1000n]);
+  });
+
+  it('should prefer older 4byte entries and signatures in the target ABI', () => {
+    const signatures = [
+      { name: 'transfer', signature: 'transfer(address,uint256)', source: '4byte', id: 200 },
+      { name: 'transfer', signature: 'transfer(address,uint256)', source: '4byte', id: 100 },
+    ];
+
+    const [newer, older] = rankSignatureCandidates(transferData, signatures).sort((a, b) => a.confidence - b.confidence);
+    expect(older.confidence).toBeGreaterThan(newer.confidence);
+
+    const withAbi = rankSignatureCandidates(transferData, signatures.slice(0, 1), erc20Abi);
+    const withoutAbi = rankSignatureCandidates(transferData, signatures.slice(0, 1), []);
+    expect(withAbi[0].confidence).toBeGreaterThan(withoutAbi[0].confidence);
+  });
+
+  it('should attach every candidate to the decoded call', async () => {
+    const decoder = new MulticallDecoder({
+      offline: true,
+      signatureProviders: [new LocalSignatureProvider([LOOKALIKE, 'transfer(address,uint256)'])],
+    });
+
+    const decoded = await decoder.decodeCall(TOKEN, transferData);
+
+    expect(decoded.functionSignature).toBe('transfer(address,uint256)');
+    expect(decoded.candidates?.map((candidate) => candidate.signature)).toEqual([
+      'transfer(address,uint256)',
+      LOOKALIKE,
+    ]);
+    expect(decoded.candidates?.[0].confidence).toBe(0.9);
+  });
+
+  it('should not flag a clear winner among several candidates as ambiguous', () => {
+    const candidates = rankSignatureCandidates(transferData, [
+      { name: 'many_msg_babbage', signature: LOOKALIKE, source: '4byte', id: 1 },
+      { name: 'transfer', signature: 'transfer(address,uint256)', source: '4byte', id: 145 },
+    ]);
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0]).toMatchObject({ roundTrip: true, inAbi: undefined });
+    expect(candidates[1].roundTrip).toBe(false);
+    expect(isAmbiguous(candidates)).toBe(false);
+    expect(isAmbiguous(candidates.slice(0, 1))).toBe(false);
+  });
+
+  it('should flag close candidates and best candidates that fail a check as ambiguous', () => {
+    const signatures = [
+      { name: 'transfer', signature: 'transfer(address,uint256)', source: '4byte', id: 100 },
+      { name: 'transfer', signature: 'transfer(address,uint256)', source: '4byte', id: 200 },
+    ];
+
+    // Only the registration age tells them apart
+    expect(isAmbiguous(rankSignatureCandidates(transferData, signatures))).toBe(true);
+
+    const [best, runnerUp] = rankSignatureCandidates(transferData, [
+      signatures[0],
+      { name: 'many_msg_babbage', signature: LOOKALIKE, source: '4byte', id: 1 },
+    ]);
+    expect(isAmbiguous([{ ...best, roundTrip: false }, runnerUp])).toBe(true);
+    expect(isAmbiguous([{ ...best, inAbi: false }, runnerUp])).toBe(true);
+  });
+});
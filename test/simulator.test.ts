@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  parseAbi,
+  parseAbiParameters,
+  type Hex,
+} from 'viem';
+import { AbiRegistry } from '../src/abi-registry';
+import { MulticallDecoder } from '../src/decoder';
+import { MulticallEncoder } from '../src/encoder';
+import { RpcClient } from '../src/rpc-client';
+import { CallSimulator, parseBlockTag } from '../src/simulator';
+
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const SAFE = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+const MULTISEND = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const RECIPIENT = '0x1111111254EEB25477B68fb85Ed929f73A960582';
+
+const erc20Abi = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
+
+const transfer = (amount: bigint) =>
+  encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [RECIPIENT, amount] });
+
+const revertData = encodeErrorResult({
+  abi: parseAbi(['error Error(string)']),
+  errorName: 'Error',
+  args: ['transfer amount exceeds balance'],
+});
+
+// Only the Safe and Multicall3 hold tokens: their transfers of up to 100 return true, anything else reverts
+function handle(request: { method: string; params: any[] }): unknown {
+  const [call, block] = request.params;
+  if (block !== '0x10') {
+    throw Object.assign(new Error(`unexpected block ${block}`), { code: -32000 });
+  }
+
+  if (call.to === MULTICALL3) {
+    return encodeAbiParameters(parseAbiParameters('(bool, bytes)[]'), [[
+      [true, encodeFunctionResult({ abi: erc20Abi, functionName: 'transfer', result: true })],
+      [false, revertData],
+    ]]);
+  }
+  if (call.to === TOKEN) {
+    const amount = BigInt(`0x${call.data.slice(-64)}`);
+    const holder = [SAFE, MULTICALL3].some((address) => address.toLowerCase() === call.from?.toLowerCase());
+    if (amount > 100n || !holder) {
+      throw Object.assign(new Error('execution reverted'), { code: 3, data: revertData });
+    }
+    return request.method === 'eth_estimateGas'
+      ? '0xc350'
+      : encodeFunctionResult({ abi: erc20Abi, functionName: 'transfer', result: true });
+  }
+  // MultiSend refuses to be called directly
+  throw Object.assign(new Error('execution reverted'), { code: 3 });
+}
+
+describe('CallSimulator', () => {
+  let server: Server;
+  let rpcUrl: string;
+
+  const registry = new AbiRegistry();
+  registry.register(erc20Abi, TOKEN);
+  const decoder = new MulticallDecoder({ abiRegistry: registry, offline: true });
+  const encoder = new MulticallEncoder();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = JSON.parse(body);
+        let response;
+        try {
+          response = { jsonrpc: '2.0', id: request.id, result: handle(request) };
+        } catch (error: any) {
+          response = { jsonrpc: '2.0', id: request.id, error: { code: error.code, message: error.message, data: error.data } };
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(response));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should take subcall results from the batch run', async () => {
+    const { data } = encoder.encodeCalls('aggregate3', [
+      { target: TOKEN, callData: transfer(1n), allowFailure: true },
+      { target: TOKEN, callData: transfer(1000n), allowFailure: true },
+    ]);
+    const calls = await decoder.decodeMulticall(data);
+
+    const simulator = new CallSimulator({ rpcClient: new RpcClient({ rpcUrl }), decoder, block: parseBlockTag('16') });
+    const simulation = await simulator.simulate(calls, { to: MULTICALL3, data });
+
+    expect(simulation).toMatchObject({ block: '0x10', success: true });
+    expect(calls[0].result).toMatchObject({ success: true, decoded: [true] });
+    // 50,000 estimated minus the 21,000 base cost and the calldata cost
+    const calldataGas = (data: Hex) =>
+      Buffer.from(data.slice(2), 'hex').reduce((gas, byte) => gas + (byte === 0 ? 4 : 16), 0);
+    expect(calls[0].result!.gasUsed).toBe(BigInt(50000 - 21000 - calldataGas(transfer(1n))));
+    expect(calls[1].result).toMatchObject({ success: false, revertReason: 'transfer amount exceeds balance' });
+    expect(calls[1].result!.gasUsed).toBeUndefined();
+  });
+
+  it('should run subcalls on their own when the batch returns no per-call results', async () => {
+    const { data } = encoder.encodeCalls('multiSend', [
+      { target: TOKEN, callData: transfer(1n) },
+      { target: TOKEN, callData: transfer(1000n) },
+      { target: TOKEN, callData: transfer(1n), operation: 'delegatecall' },
+    ]);
+    const calls = await decoder.decodeMulticall(data);
+
+    const simulator = new CallSimulator({ rpcClient: new RpcClient({ rpcUrl }), decoder, block: '0x10' });
+    // Signed by an owner, run by the Safe
+    const simulation = await simulator.simulate(calls, { to: MULTISEND, data, from: RECIPIENT, safe: SAFE });
+
+    expect(simulation).toMatchObject({ success: false, revertReason: 'reverted without reason' });
+    expect(calls[0].result).toMatchObject({ success: true, decoded: [true] });
+    expect(calls[1].result).toMatchObject({ success: false, revertReason: 'transfer amount exceeds balance' });
+    expect(calls[2].result).toMatchObject({ success: false, error: expect.stringContaining('delegatecall') });
+
+    // Without a Safe the subcalls come from the multiSend contract
+    await simulator.simulate(calls, { to: MULTISEND, data, from: SAFE });
+    expect(calls[0].result).toMatchObject({ success: false, revertReason: 'transfer amount exceeds balance' });
+  });
+
+  it('should parse block numbers and tags', () => {
+    expect(parseBlockTag('latest')).toBe('latest');
+    expect(parseBlockTag('19000000')).toBe('0x121eac0');
+    expect(parseBlockTag('0x10')).toBe('0x10');
+    expect(() => parseBlockTag('yesterday')).toThrow('Invalid block');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, encodeFunctionData, encodePacked, parseAbi, parseAbiParameters } from 'viem';
+import { MulticallDecoder } from '../src/decoder';
+import { decodeV3Path } from '../src/universal-router';
+
+const universalRouterAbi = parseAbi([
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline) external payable',
+]);
+
+const ROUTER = '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const RECIPIENT = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+
+describe('UniversalRouterDecoder', () => {
+  it('should decode execute commands', async () => {
+    const decoder = new MulticallDecoder({ offline: true });
+
+    const path = encodePacked(['address', 'uint24', 'address'], [WETH, 500, USDC]);
+    const data = encodeFunctionData({
+      abi: universalRouterAbi,
+      functionName: 'execute',
+      args: [
+        '0x0b0084',
+        [
+          encodeAbiParameters(parseAbiParameters('address, uint256'), [ROUTER, 10n ** 18n]),
+          encodeAbiParameters(parseAbiParameters('address, uint256, uint256, bytes, bool'), [
+            RECIPIENT,
+            10n ** 18n,
+            2000n * 10n ** 6n,
+            path,
+            false,
+          ]),
+          encodeAbiParameters(parseAbiParameters('address, address, uint256'), [USDC, RECIPIENT, 0n]),
+        ],
+        1700000000n,
+      ],
+    });
+
+    const calls = await decoder.decodeMulticall(data, ROUTER);
+
+    expect(calls.map((call) => call.functionName)).toEqual(['WRAP_ETH', 'V3_SWAP_EXACT_IN', 'SWEEP']);
+    calls.forEach((call) => {
+      expect(call.target).toBe(ROUTER);
+      expect(call.deadline).toBe(1700000000n);
+    });
+
+    expect(calls[1].functionSignature).toBe('V3_SWAP_EXACT_IN(address,uint256,uint256,bytes,bool)');
+    expect(calls[1].args[2]).toBe(2000n * 10n ** 6n);
+    expect(calls[1].path).toEqual([{ tokenIn: WETH, fee: 500, tokenOut: USDC }]);
+    expect(calls[1].allowFailure).toBe(false);
+    expect(calls[2].allowFailure).toBe(true);
+  });
+
+  it('should keep the raw input of a malformed subplan', async () => {
+    const decoder = new MulticallDecoder({ offline: true });
+
+    const wrap = encodeAbiParameters(parseAbiParameters('address, uint256'), [ROUTER, 10n ** 18n]);
+    const subplan = encodeAbiParameters(parseAbiParameters('bytes, bytes[]'), ['0x0b0b', [wrap]]);
+    const data = encodeFunctionData({
+      abi: universalRouterAbi,
+      functionName: 'execute',
+      args: ['0x210b', [subplan, wrap], 1700000000n],
+    });
+
+    const calls = await decoder.decodeMulticall(data, ROUTER);
+
+    expect(calls.map((call) => call.functionName)).toEqual(['EXECUTE_SUB_PLAN', 'WRAP_ETH']);
+    expect(calls[0].args).toEqual([subplan]);
+    expect(calls[0].children).toBeUndefined();
+    expect(calls[0].decodeError).toContain('length mismatch (2 commands, 1 inputs)');
+    expect(calls[1].params).toHaveLength(2);
+  });
+
+  it('should decode multi-hop V3 paths', () => {
+    const path = encodePacked(['address', 'uint24', 'address', 'uint24', 'address'], [USDC, 100, WETH, 3000, RECIPIENT]);
+
+    expect(decodeV3Path(path)).toEqual([
+      { tokenIn: USDC, fee: 100, tokenOut: WETH },
+      { tokenIn: WETH, fee: 3000, tokenOut: RECIPIENT },
+    ]);
+    expect(() => decodeV3Path('0x1234')).toThrow('Invalid V3 path length');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFunctionData, maxUint256, parseAbi } from 'viem';
+import { MulticallDecoder } from '../src/decoder';
+import { StaticTokenMetadataProvider, ValueFormatter } from '../src/value-formatter';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const ROUTER = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+const RECIPIENT = '0x0298E0C16097c3C2C3Fc200f901aE54Ae7659f99';
+
+const tokens = new StaticTokenMetadataProvider([
+  { address: USDC, symbol: 'USDC', decimals: 6 },
+  { address: WETH, symbol: 'WETH', decimals: 18 },
+]);
+
+async function decodeAndFormat(target: string, callData: string) {
+  const decoder = new MulticallDecoder({ offline: true });
+  const call = await decoder.decodeCall(target, callData);
+  await new ValueFormatter({ tokenProvider: tokens }).formatCall(call);
+  return call;
+}
+
+describe('ValueFormatter', () => {
+  it('should scale amounts of the target token and flag unlimited approvals', async () => {
+    const erc20Abi = parseAbi([
+      'function transfer(address to, uint256 amount)',
+      'function approve(address spender, uint256 amount)',
+    ]);
+
+    const transfer = await decodeAndFormat(
+      USDC,
+      encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [RECIPIENT, 1_250_500_000n] })
+    );
+    expect(transfer.params?.[1]).toMatchObject({ value: 1_250_500_000n, formatted: '1,250.5 USDC' });
+
+    const approve = await decodeAndFormat(
+      USDC,
+      encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [RECIPIENT, maxUint256] })
+    );
+    expect(approve.params?.[1]).toMatchObject({ value: maxUint256, formatted: 'unlimited' });
+  });
+
+  it('should use the token named in the arguments, deadlines and fee tiers', async () => {
+    const routerAbi = parseAbi([
+      'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+    ]);
+    const decoder = new MulticallDecoder({ offline: true });
+    decoder.registerAbi(routerAbi, ROUTER);
+
+    const call = await decoder.decodeCall(ROUTER, encodeFunctionData({
+      abi: routerAbi,
+      functionName: 'exactInputSingle',
+      args: [{
+        tokenIn: WETH,
+        tokenOut: USDC,
+        fee: 500,
+        recipient: RECIPIENT,
+        deadline: 1_700_000_000n,
+        amountIn: 10n ** 18n,
+        amountOutMinimum: 2_000_000_000n,
+        sqrtPriceLimitX96: 0n,
+      }],
+    }));
+    await new ValueFormatter({ tokenProvider: tokens }).formatCall(call);
+
+    const fields = Object.fromEntries(call.params![0].components!.map((param) => [param.name, param.formatted]));
+    expect(fields).toMatchObject({
+      fee: '0.05%',
+      deadline: '2023-11-14T22:13:20.000Z',
+      amountIn: '1 WETH',
+      amountOutMinimum: '2,000 USDC',
+    });
+  });
+
+  it('should render ETH values and basis points without token metadata', async () => {
+    const abi = parseAbi([
+      'function configure(uint256 amountETHMin, uint16 feeBps, uint256 value, uint256 slippagePercent, uint8 percent, uint256 swapFeePercentage)',
+    ]);
+    const decoder = new MulticallDecoder({ offline: true });
+    decoder.registerAbi(abi, ROUTER);
+
+    const call = await decoder.decodeCall(ROUTER, encodeFunctionData({
+      abi,
+      functionName: 'configure',
+      args: [15n * 10n ** 17n, 30, 42n, 5n * 10n ** 16n, 5, 3n * 10n ** 15n],
+    }));
+    await new ValueFormatter().formatCall(call);
+
+    // A plain `value` argument is not ETH, and percentages of unknown scale stay raw
+    expect(call.params?.map((param) => param.formatted)).toEqual(['1.5 ETH', '0.3%', undefined, undefined, '5%', '0.3%']);
+  });
+});